@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Badge } from '@teable/ui-lib/dist/shadcn/ui/badge';
+import { Button } from '@teable/ui-lib/dist/shadcn/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@teable/ui-lib/dist/shadcn/ui/alert-dialog';
+import { History, User, Clock4, RefreshCcw, Undo2 } from '@teable/icons';
+import { useRunHistory } from '@/hooks/useRunHistory';
+import { useFields } from '@/hooks/useFields';
+import { useGlobalUrlParams } from '@/hooks/useGlobalUrlParams';
+import { useViews } from '@/hooks/useViews';
+import { IRunHistoryEntry } from '@/utils/runHistoryStore';
+
+interface IRunHistoryPanelProps {
+  /** 重试某次运行中失败的链接 */
+  onRetry?: (entry: IRunHistoryEntry) => void;
+  disabled?: boolean;
+}
+
+export function RunHistoryPanel({ onRetry, disabled = false }: IRunHistoryPanelProps) {
+  const { t, i18n } = useTranslation('common');
+  const { tableId } = useGlobalUrlParams();
+  const { data: history = [], isLoading, undoRun } = useRunHistory();
+  // 等待确认撤销的运行
+  const [pendingUndo, setPendingUndo] = useState<IRunHistoryEntry | null>(null);
+  const [undoProgress, setUndoProgress] = useState<{ runId: string; processed: number; total: number } | null>(null);
+  const { data: fields = [] } = useFields();
+  const { data: views = [] } = useViews();
+
+  // 字段或视图被删除后退回显示ID
+  const getFieldName = (fieldId: string) => fields.find(field => field.id === fieldId)?.name ?? fieldId;
+  const getViewName = (viewId: string | null) =>
+    viewId ? views.find(view => view.id === viewId)?.name ?? viewId : t('converter.history.noView');
+
+  // 重试按当前表格读取记录，其他表格的运行只能在该表格中重试
+  const isOtherTable = (entry: IRunHistoryEntry) => entry.tableId !== tableId;
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+  };
+
+  // 撤销运行，只移除该运行创建的附件
+  const handleUndo = async (entry: IRunHistoryEntry) => {
+    setPendingUndo(null);
+    setUndoProgress({ runId: entry.id, processed: 0, total: 0 });
+
+    try {
+      const result = await undoRun(entry, (processed, total) => setUndoProgress({ runId: entry.id, processed, total }));
+      if (result.failedRecordIds.length > 0) {
+        toast.error(t('converter.history.undoPartial', {
+          removed: result.removed,
+          failed: result.failedRecordIds.length
+        }));
+      } else {
+        toast.success(t('converter.history.undoCompleted', { removed: result.removed, notFound: result.notFound }));
+      }
+    } catch (error) {
+      console.error('Undo run error:', error);
+      toast.error(t('converter.history.undoFailed'), {
+        description: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      setUndoProgress(null);
+    }
+  };
+
+  const renderEntry = (entry: IRunHistoryEntry) => (
+    <div key={entry.id} className="p-3 border rounded-lg space-y-2 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <User className="w-4 h-4 shrink-0 text-gray-400" />
+          <span className="truncate font-medium">{entry.startedBy?.name ?? t('converter.history.unknownUser')}</span>
+          <span className="shrink-0 text-xs text-muted-foreground">
+            {new Date(entry.startedAt).toLocaleString(i18n.language)}
+          </span>
+        </div>
+        <div className="flex shrink-0 items-center gap-2">
+          {entry.watch && (
+            <Badge variant="outline" className="text-xs">
+              {t('converter.history.watch')}
+            </Badge>
+          )}
+          {entry.retry && (
+            <Badge variant="outline" className="text-xs">
+              {t('converter.history.retry')}
+            </Badge>
+          )}
+          {entry.cancelled && (
+            <Badge variant="outline" className="text-xs text-amber-600">
+              {t('converter.history.cancelled')}
+            </Badge>
+          )}
+          {entry.undone && (
+            <Badge variant="outline" className="text-xs text-red-600">
+              {t('converter.history.undone', { name: entry.undone.by?.name ?? t('converter.history.unknownUser') })}
+            </Badge>
+          )}
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground truncate">
+        {getViewName(entry.viewId)} · {entry.fieldMappings
+          .map(mapping => `${getFieldName(mapping.urlFieldId)} → ${getFieldName(mapping.attachmentFieldId)}`)
+          .join(', ')}
+      </div>
+      <div className="flex items-center gap-4 text-xs">
+        <span className="text-green-600">{t('converter.successful')}: {entry.summary.successfulConversions}</span>
+        <span className="text-red-600">{t('converter.failed')}: {entry.summary.failedConversions}</span>
+        {entry.summary.skippedUrls > 0 && (
+          <span className="text-amber-600">{t('converter.history.skipped')}: {entry.summary.skippedUrls}</span>
+        )}
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Clock4 className="w-3 h-3" />
+          {formatDuration(entry.duration)}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          {onRetry && entry.failedItems && entry.failedItems.length > 0 && isOtherTable(entry) && (
+            <span className="text-muted-foreground">{t('converter.history.retryOtherTable')}</span>
+          )}
+          {onRetry && entry.failedItems && entry.failedItems.length > 0 && !isOtherTable(entry) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7"
+              onClick={() => onRetry(entry)}
+              disabled={disabled || undoProgress !== null}
+            >
+              <RefreshCcw className="w-3 h-3 mr-1" />
+              {t('converter.retryFailed', { count: entry.failedItems.length })}
+            </Button>
+          )}
+          {!entry.undone && entry.omittedAttachments !== undefined && (
+            <span className="text-muted-foreground">
+              {t('converter.history.undoUnavailable', { count: entry.omittedAttachments })}
+            </span>
+          )}
+          {!entry.undone && entry.createdAttachments && entry.createdAttachments.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-red-600"
+              onClick={() => setPendingUndo(entry)}
+              disabled={disabled || undoProgress !== null}
+            >
+              <Undo2 className="w-3 h-3 mr-1" />
+              {undoProgress?.runId === entry.id
+                ? t('converter.history.undoing', { processed: undoProgress.processed, total: undoProgress.total })
+                : t('converter.history.undo')}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="text-sm font-medium text-gray-700 flex items-center gap-1">
+        <History className="w-4 h-4" />
+        {t('converter.history.title')}
+      </div>
+      {isLoading ? (
+        <div className="text-sm text-muted-foreground">{t('converter.history.loading')}</div>
+      ) : history.length === 0 ? (
+        <div className="text-sm text-muted-foreground">{t('converter.history.empty')}</div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {history.map(renderEntry)}
+        </div>
+      )}
+
+      {/* 撤销确认 */}
+      <AlertDialog open={pendingUndo !== null} onOpenChange={(open) => !open && setPendingUndo(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('converter.history.confirmUndoTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('converter.history.confirmUndoDescription', {
+                count: pendingUndo?.createdAttachments?.length ?? 0
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingUndo && handleUndo(pendingUndo)}>
+              {t('converter.history.undo')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
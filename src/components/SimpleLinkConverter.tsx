@@ -5,11 +5,14 @@ import { useTranslation } from 'react-i18next';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@teable/ui-lib/dist/shadcn/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@teable/ui-lib/dist/shadcn/ui/select';
-import { Progress } from '@teable/ui-lib/dist/shadcn/ui/progress';
-import { toast } from 'sonner';
+import { Textarea } from '@teable/ui-lib/dist/shadcn/ui/textarea';
 import {
-  ArrowUp,
+  ArrowRight,
   AlertCircle,
+  ChevronDown,
+  ChevronRight,
+  Plus,
+  Trash2,
   Sheet,
   ClipboardList as Form,
   LayoutGrid as Gallery,
@@ -20,50 +23,34 @@ import {
   File,
 } from '@teable/icons';
 import * as openApi from '@teable/openapi';
-import { AttachmentUploader, IUploadResult } from '@/utils/attachmentUploader';
-import { extractUrls } from '@/utils/urlExtractor';
 import { useViews } from '@/hooks/useViews';
 import { useGlobalUrlParams } from '@/hooks/useGlobalUrlParams';
-
-interface ConversionResult {
-  recordId: string;
-  urlCount: number;
-  successCount: number;
-  failedUrls: string[];
-  errors: string[];
-}
+import {
+  IConverterConfig,
+  IFieldMapping,
+  ConverterOptions,
+  DEFAULT_CONVERTER_OPTIONS,
+  toFieldTargets
+} from '@/components/link-converter/types';
+import { ConverterConfig } from '@/components/link-converter/ConverterConfig';
+import { ConvertExecutor } from '@/components/link-converter/ConvertExecutor';
+
+// 转换范围：整个视图 / 宿主中当前打开的记录 / 指定的记录ID列表
+type ConversionScope = 'view' | 'currentRecord' | 'recordIds';
 
 export function SimpleLinkConverter() {
   const { t } = useTranslation('common');
-  const { tableId } = useGlobalUrlParams();
+  const { tableId, recordId: hostRecordId } = useGlobalUrlParams();
 
   // Configuration states
+  const [scope, setScope] = useState<ConversionScope>('view');
+  const [recordIdsInput, setRecordIdsInput] = useState<string>('');
   const [selectedViewId, setSelectedViewId] = useState<string>('');
-  const [selectedUrlField, setSelectedUrlField] = useState<string>('');
-  const [selectedAttachmentField, setSelectedAttachmentField] = useState<string>('');
+  const [fieldMappings, setFieldMappings] = useState<IFieldMapping[]>([{ urlFieldId: '', attachmentFieldId: '' }]);
+  const [options, setOptions] = useState<ConverterOptions>(DEFAULT_CONVERTER_OPTIONS);
+  const [showAdvanced, setShowAdvanced] = useState(false);
   const [isConverting, setIsConverting] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [stats, setStats] = useState({ success: 0, failed: 0, processing: 0 });
-
-  // Initialize AttachmentUploader
-  const [uploader] = useState(() => new AttachmentUploader({
-    timeout: 30000,
-    retryCount: 2,
-    retryDelay: 1000,
-    preserveOriginalLink: true,
-    maxConcurrency: 3,
-    onComplete: (result: IUploadResult) => {
-      // Upload completed callback
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`Upload completed for ${result.originalUrl}:`, result);
-      }
-    },
-    onError: (url: string, error: string) => {
-      // Upload error callback - always log errors
-      console.error(`Upload error for ${url}:`, error);
-    }
-  }));
-
+  const [isWatching, setIsWatching] = useState(false);
 
   // Fetch table fields and records
   const { data: fields, isLoading: fieldsLoading } = useQuery({
@@ -92,19 +79,55 @@ export function SimpleLinkConverter() {
     [fields]
   );
 
-  // Get selected field objects (memoized)
-  const urlField = useMemo(() => 
-    fields?.find(f => f.id === selectedUrlField),
-    [fields, selectedUrlField]
+  // 解析字段映射，只保留两侧字段都存在的映射 (memoized)
+  const resolvedMappings = useMemo(() =>
+    fieldMappings.filter(({ urlFieldId, attachmentFieldId }) =>
+      fields?.some(f => f.id === urlFieldId) && fields?.some(f => f.id === attachmentFieldId)
+    ),
+    [fields, fieldMappings]
   );
-  
-  const attachmentField = useMemo(() => 
-    fields?.find(f => f.id === selectedAttachmentField),
-    [fields, selectedAttachmentField]
+
+  const updateFieldMapping = (index: number, update: Partial<IFieldMapping>) => {
+    setFieldMappings(prev => prev.map((mapping, i) => i === index ? { ...mapping, ...update } : mapping));
+  };
+
+  const addFieldMapping = () => {
+    setFieldMappings(prev => [...prev, { urlFieldId: '', attachmentFieldId: '' }]);
+  };
+
+  const removeFieldMapping = (index: number) => {
+    setFieldMappings(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // 解析输入的记录ID，支持换行、空格、逗号分隔
+  const scopeRecordIds = useMemo(() =>
+    Array.from(new Set(recordIdsInput.split(/[\s,，;]+/).filter(Boolean))),
+    [recordIdsInput]
   );
 
+  const isScopeValid = scope === 'view' ? Boolean(selectedViewId) :
+                       scope === 'currentRecord' ? Boolean(hostRecordId) :
+                       scopeRecordIds.length > 0;
+
   // Check if configuration is valid
-  const isConfigValid = Boolean(selectedViewId && selectedUrlField && selectedAttachmentField && urlField && attachmentField);
+  const isConfigValid = isScopeValid && resolvedMappings.length > 0 && resolvedMappings.length === fieldMappings.length;
+
+  // 按范围转换的记录，整个视图时为空
+  const recordIds = useMemo(() =>
+    scope === 'currentRecord' ? (hostRecordId ? [hostRecordId] : []) :
+    scope === 'recordIds' ? scopeRecordIds :
+    undefined,
+    [scope, hostRecordId, scopeRecordIds]
+  );
+
+  // 映射、视图和转换选项合并为转换服务使用的配置
+  const config = useMemo<IConverterConfig>(() => ({
+    ...options,
+    ...toFieldTargets(resolvedMappings),
+    ...(scope === 'view' && selectedViewId ? { viewId: selectedViewId } : {})
+  }), [options, resolvedMappings, scope, selectedViewId]);
+
+  const isBusy = isConverting || isWatching;
 
   // Get view icon based on view type (memoized)
   const getViewIcon = useCallback((viewType: string) => {
@@ -144,135 +167,6 @@ export function SimpleLinkConverter() {
     return <A className="w-4 h-4" />; // 默认图标
   }, []);
 
-  
-  // 使用真正的uploadAttachment API进行转换
-  const handleConvert = async () => {
-    if (!isConfigValid) {
-      toast.error(t('converter.configIncomplete'), {
-        description: t('converter.selectViewUrlAndAttachmentFields')
-      });
-      return;
-    }
-
-    if (!tableId) {
-      toast.error(t('converter.tableIdUnavailable'), {
-        description: t('converter.cannotGetTableInfo')
-      });
-      return;
-    }
-
-    setIsConverting(true);
-    setProgress(0);
-    setStats({ success: 0, failed: 0, processing: 0 });
-
-    try {
-      // 点击开始转换时才查询记录
-      const recordsResponse = await openApi.getRecords(tableId, selectedViewId ? { viewId: selectedViewId } : undefined);
-      const records = recordsResponse.data.records;
-
-      if (!records || records.length === 0) {
-        toast.error(t('converter.noRecordsToProcess'), {
-          description: t('converter.noRecordsInView')
-        });
-        setIsConverting(false);
-        return;
-      }
-
-      const results: ConversionResult[] = [];
-      const totalRecords = records.length;
-      let totalUrls = 0;
-      let processedCount = 0;
-
-      for (let i = 0; i < records.length; i++) {
-        const record = records[i];
-        if (!record) continue;
-
-        // Try to get URL from field by ID first, then by field name
-        const text = (record.fields[selectedUrlField] || record.fields[urlField?.name || ''] || '') as string;
-        const urls = extractUrls(text);
-
-        if (urls.length === 0) continue;
-
-        totalUrls += urls.length;
-        const result: ConversionResult = {
-          recordId: record.id,
-          urlCount: urls.length,
-          successCount: 0,
-          failedUrls: [],
-          errors: []
-        };
-
-        // Process each URL using the new uploader
-        for (const url of urls) {
-          processedCount++;
-          setStats(prev => ({ ...prev, processing: totalUrls - processedCount }));
-          try {
-            // Use the new AttachmentUploader with fileUrl method
-            // 文件名由服务器端从 URL 或响应头中提取，不需要客户端处理
-            const uploadResult = await uploader.uploadFromUrl(
-              url,
-              '', // 不传递文件名，让服务器端处理
-              tableId,
-              record!.id,
-              selectedAttachmentField
-            );
-
-            if (uploadResult.success) {
-              result.successCount++;
-              setStats(prev => {
-                const newStats = { ...prev };
-                newStats.success += 1;
-                newStats.processing -= 1;
-                return newStats;
-              });
-            } else {
-              result.failedUrls.push(url);
-              result.errors.push(uploadResult.error || 'Upload failed');
-              setStats(prev => {
-                const newStats = { ...prev };
-                newStats.failed += 1;
-                newStats.processing -= 1;
-                return newStats;
-              });
-            }
-
-          } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            result.failedUrls.push(url);
-            result.errors.push(errorMessage);
-            setStats(prev => {
-              const newStats = { ...prev };
-              newStats.failed += 1;
-              newStats.processing -= 1;
-              return newStats;
-            });
-          }
-        }
-
-        if (result.urlCount > 0) {
-          results.push(result);
-        }
-
-        setProgress(((i + 1) / totalRecords) * 100);
-      }
-
-      // Show success message
-      toast.success(t('converter.conversionCompleted'), {
-        description: t('converter.foundLinksProcessed', { total: totalUrls, success: stats.success })
-      });
-
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error('Conversion error:', error);
-      toast.error(t('converter.conversionFailed'), {
-        description: `${t('converter.errorDuringConversion')}: ${errorMessage}`
-      });
-    } finally {
-      setIsConverting(false);
-      setStats(prev => ({ ...prev, processing: 0 }));
-    }
-  };
-
   if (!tableId) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -301,76 +195,147 @@ export function SimpleLinkConverter() {
 
   return (
     <div className="w-full max-w-2xl mx-auto p-6 space-y-6">
-      {/* 选择视图 */}
+      {/* 转换范围 */}
       <div className="space-y-2">
-        <label className="text-sm font-medium text-gray-700">{t('converter.selectView')}</label>
-        <Select value={selectedViewId} onValueChange={setSelectedViewId} disabled={isConverting}>
+        <label className="text-sm font-medium text-gray-700">{t('converter.conversionScope')}</label>
+        <Select value={scope} onValueChange={(value) => setScope(value as ConversionScope)} disabled={isBusy}>
           <SelectTrigger>
-            <SelectValue placeholder={t('converter.selectViewPlaceholder')} />
+            <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            {views.length === 0 ? (
-              <SelectItem value="no-views" disabled>{t('converter.noViewsFound')}</SelectItem>
-            ) : (
-              views.map((view) => (
-                <SelectItem key={view.id} value={view.id}>
-                  <div className="flex items-center gap-2">
-                    {getViewIcon(view.type)}
-                    <span>{view.name}</span>
-                  </div>
-                </SelectItem>
-              ))
-            )}
+            <SelectItem value="view">{t('converter.scope.view')}</SelectItem>
+            <SelectItem value="currentRecord">{t('converter.scope.currentRecord')}</SelectItem>
+            <SelectItem value="recordIds">{t('converter.scope.recordIds')}</SelectItem>
           </SelectContent>
         </Select>
+        {scope === 'currentRecord' && (
+          <p className="text-xs text-muted-foreground">
+            {hostRecordId ? t('converter.currentRecordHint', { recordId: hostRecordId }) : t('converter.noHostRecord')}
+          </p>
+        )}
+        {scope === 'recordIds' && (
+          <>
+            <Textarea
+              value={recordIdsInput}
+              onChange={(event) => setRecordIdsInput(event.target.value)}
+              placeholder={t('converter.recordIdsPlaceholder')}
+              disabled={isBusy}
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('converter.recordIdsCount', { count: scopeRecordIds.length })}
+            </p>
+          </>
+        )}
       </div>
 
-      {/* 选择 URL字段 */}
-      <div className="space-y-2">
-        <label className="text-sm font-medium text-gray-700">{t('converter.selectUrlField')}</label>
-        <Select value={selectedUrlField} onValueChange={setSelectedUrlField} disabled={isConverting}>
-          <SelectTrigger>
-            <SelectValue placeholder={t('converter.selectFieldPlaceholder')} />
-          </SelectTrigger>
-          <SelectContent>
-            {textFields.length === 0 ? (
-              <SelectItem value="no-fields" disabled>{t('converter.noTextFieldsFound')}</SelectItem>
-            ) : (
-              textFields.map((field) => (
-                <SelectItem key={field.id} value={field.id}>
-                  <div className="flex items-center gap-2">
-                    {getFieldIcon(field.type, field.cellValueType)}
-                    <span>{field.name}</span>
-                  </div>
-                </SelectItem>
-              ))
-            )}
-          </SelectContent>
-        </Select>
-      </div>
+      {/* 选择视图 */}
+      {scope === 'view' && (
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">{t('converter.selectView')}</label>
+          <Select value={selectedViewId} onValueChange={setSelectedViewId} disabled={isBusy}>
+            <SelectTrigger>
+              <SelectValue placeholder={t('converter.selectViewPlaceholder')} />
+            </SelectTrigger>
+            <SelectContent>
+              {views.length === 0 ? (
+                <SelectItem value="no-views" disabled>{t('converter.noViewsFound')}</SelectItem>
+              ) : (
+                views.map((view) => (
+                  <SelectItem key={view.id} value={view.id}>
+                    <div className="flex items-center gap-2">
+                      {getViewIcon(view.type)}
+                      <span>{view.name}</span>
+                    </div>
+                  </SelectItem>
+                ))
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
 
-      {/* 选择附件字段 */}
+      {/* 字段映射：URL字段 → 附件字段 */}
       <div className="space-y-2">
-        <label className="text-sm font-medium text-gray-700">{t('converter.selectAttachmentField')}</label>
-        <Select value={selectedAttachmentField} onValueChange={setSelectedAttachmentField} disabled={isConverting}>
-          <SelectTrigger>
-            <SelectValue placeholder={t('converter.selectFieldPlaceholder')} />
-          </SelectTrigger>
-          <SelectContent>
-            {attachmentFields.length === 0 ? (
-              <SelectItem value="no-fields" disabled>{t('converter.noAttachmentFieldsFound')}</SelectItem>
-            ) : (
-              attachmentFields.map((field) => (
-                <SelectItem key={field.id} value={field.id}>
-                  <div className="flex items-center gap-2">
-                    <File className="w-4 h-4" />
-                    <span>{field.name}</span>
-                  </div>
-                </SelectItem>
-              ))
-            )}
-          </SelectContent>
-        </Select>
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <span className="flex-1">{t('converter.selectUrlField')}</span>
+          <span className="w-4" />
+          <span className="flex-1">{t('converter.selectAttachmentField')}</span>
+          <span className="w-9" />
+        </div>
+        {fieldMappings.map((mapping, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <Select
+                value={mapping.urlFieldId}
+                onValueChange={(urlFieldId) => updateFieldMapping(index, { urlFieldId })}
+                disabled={isBusy}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('converter.selectFieldPlaceholder')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {textFields.length === 0 ? (
+                    <SelectItem value="no-fields" disabled>{t('converter.noTextFieldsFound')}</SelectItem>
+                  ) : (
+                    textFields.map((field) => (
+                      <SelectItem
+                        key={field.id}
+                        value={field.id}
+                        // 每个URL字段只能映射到一个附件字段
+                        disabled={fieldMappings.some((other, i) => i !== index && other.urlFieldId === field.id)}
+                      >
+                        <div className="flex items-center gap-2">
+                          {getFieldIcon(field.type, field.cellValueType)}
+                          <span>{field.name}</span>
+                        </div>
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <ArrowRight className="w-4 h-4 shrink-0 text-gray-400" />
+            <div className="flex-1 min-w-0">
+              <Select
+                value={mapping.attachmentFieldId}
+                onValueChange={(attachmentFieldId) => updateFieldMapping(index, { attachmentFieldId })}
+                disabled={isBusy}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('converter.selectFieldPlaceholder')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {attachmentFields.length === 0 ? (
+                    <SelectItem value="no-fields" disabled>{t('converter.noAttachmentFieldsFound')}</SelectItem>
+                  ) : (
+                    attachmentFields.map((field) => (
+                      <SelectItem key={field.id} value={field.id}>
+                        <div className="flex items-center gap-2">
+                          <File className="w-4 h-4" />
+                          <span>{field.name}</span>
+                        </div>
+                      </SelectItem>
+                    ))
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => removeFieldMapping(index)}
+              disabled={isBusy || fieldMappings.length === 1}
+              title={t('converter.removeFieldMapping')}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button variant="outline" size="sm" onClick={addFieldMapping} disabled={isBusy}>
+          <Plus className="w-4 h-4 mr-1" />
+          {t('converter.addFieldMapping')}
+        </Button>
       </div>
 
       {/* 配置提示 */}
@@ -381,48 +346,30 @@ export function SimpleLinkConverter() {
         </div>
       )}
 
-      {/* 开始转换按钮 */}
-      <Button
-        onClick={handleConvert}
-        disabled={!isConfigValid || isConverting}
-        className="w-full"
-        size="lg"
-      >
-        {isConverting ? (
-          <>
-            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-            {t('converter.converting')}
-          </>
-        ) : (
-          <>
-            <ArrowUp className="w-4 h-4 mr-2" />
-            {t('converter.startConversion')}
-          </>
+      {/* 高级设置 */}
+      <div className="space-y-4">
+        <Button variant="ghost" size="sm" className="px-0" onClick={() => setShowAdvanced(prev => !prev)}>
+          {showAdvanced ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+          {t('converter.advancedSettings')}
+        </Button>
+        {showAdvanced && (
+          <ConverterConfig
+            config={config}
+            onConfigChange={(update) => setOptions(prev => ({ ...prev, ...update }))}
+            disabled={isBusy}
+          />
         )}
-      </Button>
+      </div>
 
-      {/* 转换进度 */}
-      {(isConverting || stats.success > 0 || stats.failed > 0) && (
-        <div className="space-y-3 p-4 border rounded-lg bg-gray-50">
-          <div className="text-sm font-medium text-gray-700 flex items-center gap-1">
-            📈 {t('converter.conversionProgress')}
-          </div>
-          {isConverting && (
-            <div className="space-y-2">
-              <div className="flex justify-between text-sm text-gray-600 mb-1">
-                <span>{t('converter.progress')}</span>
-                <span>{Math.round(progress)}%</span>
-              </div>
-              <Progress value={progress} className="h-2" />
-            </div>
-          )}
-          <div className="flex gap-6 text-sm">
-            <span className="text-green-600">{t('converter.successful')}: {stats.success}{t('converter.countUnit')}</span>
-            {stats.failed > 0 && <span className="text-red-600">{t('converter.failed')}: {stats.failed}{t('converter.countUnit')}</span>}
-            {stats.processing > 0 && <span className="text-blue-600">{t('converter.processing')}: {stats.processing}{t('converter.countUnit')}</span>}
-          </div>
-        </div>
-      )}
+      {/* 预览、转换、监听和运行历史 */}
+      <ConvertExecutor
+        config={config}
+        {...(recordIds ? { recordIds } : {})}
+        disabled={!isConfigValid}
+        onExecuteStart={() => setIsConverting(true)}
+        onExecuteComplete={() => setIsConverting(false)}
+        onWatchingChange={setIsWatching}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,116 @@
+'use client';
+import { useTranslation } from 'react-i18next';
+import { Card, CardContent, CardHeader, CardTitle } from '@teable/ui-lib/dist/shadcn/ui/card';
+import { Badge } from '@teable/ui-lib/dist/shadcn/ui/badge';
+import { Eye } from '@teable/icons';
+import { IConversionPlan, ConversionSkipReason } from './types';
+
+// 预览列表最多渲染的记录数，避免大表卡顿
+const MAX_PREVIEW_RECORDS = 200;
+
+interface IConversionPreviewProps {
+  plan: IConversionPlan;
+  className?: string;
+}
+
+export function ConversionPreview({ plan, className }: IConversionPreviewProps) {
+  const { t } = useTranslation('common');
+
+  const getSkipReasonLabel = (reason?: ConversionSkipReason) => {
+    switch (reason) {
+      case 'invalidUrl':
+        return t('converter.skipReason.invalidUrl');
+      case 'fileTypeNotAllowed':
+        return t('converter.skipReason.fileTypeNotAllowed');
+      case 'fileTooLarge':
+        return t('converter.skipReason.fileTooLarge');
+      case 'webPage':
+        return t('converter.skipReason.webPage');
+      case 'alreadyConverted':
+        return t('converter.skipReason.alreadyConverted');
+      default:
+        return t('converter.skipReason.unknown');
+    }
+  };
+
+  const formatFileSize = (bytes?: number) => {
+    if (bytes === undefined) return t('converter.unknownSize');
+    if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+    if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)}KB`;
+    return `${bytes}B`;
+  };
+
+  const visibleRecords = plan.records.slice(0, MAX_PREVIEW_RECORDS);
+  const hiddenRecordCount = plan.records.length - visibleRecords.length;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Eye className="w-5 h-5" />
+          {t('converter.previewTitle')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* 汇总 */}
+        <div className="grid grid-cols-4 gap-4 text-center p-3 bg-gray-50 rounded-lg">
+          <div>
+            <div className="text-lg font-semibold">{plan.totalRecords}</div>
+            <div className="text-xs text-muted-foreground">{t('converter.previewRecords')}</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-blue-600">{plan.totalUrls}</div>
+            <div className="text-xs text-muted-foreground">{t('converter.previewUrls')}</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-green-600">{plan.convertibleUrls}</div>
+            <div className="text-xs text-muted-foreground">{t('converter.previewConvertible')}</div>
+          </div>
+          <div>
+            <div className="text-lg font-semibold text-amber-600">{plan.skippedUrls}</div>
+            <div className="text-xs text-muted-foreground">{t('converter.previewSkipped')}</div>
+          </div>
+        </div>
+
+        {plan.records.length === 0 ? (
+          <div className="text-sm text-muted-foreground">{t('converter.previewEmpty')}</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto space-y-3">
+            {visibleRecords.map((record) => (
+              <div key={record.recordId} className="p-3 border rounded-lg space-y-2">
+                <div className="text-xs font-mono text-muted-foreground">{record.recordId}</div>
+                {record.items.map((item, index) => (
+                  <div key={`${item.fieldId}-${index}`} className="flex items-start justify-between gap-3 text-sm">
+                    <div className="min-w-0 flex-1">
+                      <div className="truncate font-medium">{item.fileName}</div>
+                      <div className="truncate text-xs text-muted-foreground">
+                        {item.fieldName} · {item.url}
+                      </div>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-2">
+                      <span className="text-xs text-muted-foreground">{formatFileSize(item.fileSize)}</span>
+                      {item.willSkip ? (
+                        <Badge variant="outline" className="text-xs text-amber-600">
+                          {getSkipReasonLabel(item.skipReason)}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="text-xs text-green-600">
+                          {t('converter.previewWillConvert')}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+            {hiddenRecordCount > 0 && (
+              <div className="text-xs text-muted-foreground text-center">
+                {t('converter.previewMoreRecords', { count: hiddenRecordCount })}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,35 +1,104 @@
 'use client';
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@teable/ui-lib/dist/shadcn/ui/button';
 import { Card, CardContent } from '@teable/ui-lib/dist/shadcn/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@teable/ui-lib/dist/shadcn/ui/select';
 import { Progress } from '@teable/ui-lib/dist/shadcn/ui/progress';
 import { Badge } from '@teable/ui-lib/dist/shadcn/ui/badge';
-import { Loader2, Play, CheckCircle2, AlertTriangle, Link, FileText } from '@teable/icons';
-import { IConverterConfig, IConversionProgress, ConversionStage } from './types';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@teable/ui-lib/dist/shadcn/ui/alert-dialog';
+import { Loader2, Play, CheckCircle2, AlertTriangle, Link, FileText, Eye, EyeOff, History, Download, RefreshCcw } from '@teable/icons';
+import { IConverterConfig, IConversionProgress, ConversionStage, IConversionPlan, IReplaceImpact, IConversionRetryItem, getFieldMappings, getRetryMappings } from './types';
+import { ConversionPreview } from './ConversionPreview';
+import { RunHistoryPanel } from '../RunHistoryPanel';
 import { useToast } from '../../hooks/useToast';
 import { useGlobalUrlParams } from '../../hooks/useGlobalUrlParams';
-import { LinkConversionService } from '../../services/linkConversionService';
+import { useFields } from '../../hooks/useFields';
+import { useRunHistory, IRunHistoryInput } from '../../hooks/useRunHistory';
+import { LinkConversionService, ILinkConversionResult } from '../../services/linkConversionService';
+import { ConversionReport, ReportFormat } from '../../utils/conversionReport';
+import { ConversionCheckpointStore, ICheckpointStats } from '../../utils/conversionCheckpoint';
+import { RecordWatcher } from '../../utils/recordWatcher';
 
 interface IConvertExecutorProps {
   config: IConverterConfig;
+  /** 只处理这些记录，不扫描视图 */
+  recordIds?: string[];
   disabled?: boolean;
   onExecuteStart: () => void;
   onExecuteComplete: () => void;
+  /** 开始或停止监听时的回调 */
+  onWatchingChange?: (watching: boolean) => void;
 }
 
+/**
+ * 单次转换的执行选项
+ */
+interface IExecuteOptions {
+  /** 是否从检查点继续 */
+  resume?: boolean;
+  /** 只重新处理这些链接 */
+  retryItems?: IConversionRetryItem[];
+  /** 写入运行历史的视图，默认为当前配置的视图 */
+  viewId?: string | null;
+  /** 监听模式发现新增了链接的记录，只处理这些记录 */
+  watchRecordIds?: string[];
+}
+
+// 监听模式可选的轮询间隔 (毫秒)
+const WATCH_INTERVALS = [15000, 30000, 60000, 300000];
+
+// 运行结果中失败的链接（不含被跳过的链接）
+const getFailedItems = (result: ILinkConversionResult): IConversionRetryItem[] =>
+  result.results
+    .filter(item => !item.success && !item.skipped)
+    .map(item => ({
+      recordId: item.recordId,
+      urlFieldId: item.fieldId,
+      attachmentFieldId: item.attachmentFieldId,
+      url: item.url
+    }));
+
 export function ConvertExecutor({
   config,
+  recordIds,
   disabled = false,
   onExecuteStart,
-  onExecuteComplete
+  onExecuteComplete,
+  onWatchingChange
 }: IConvertExecutorProps) {
   const { t } = useTranslation('common');
   const { showSuccess, showError, showWarning } = useToast();
   const urlParams = useGlobalUrlParams();
+  const { data: fields = [] } = useFields();
+  const { recordRun } = useRunHistory();
   const conversionServiceRef = useRef<LinkConversionService | null>(null);
 
   const [isExecuting, setIsExecuting] = useState(false);
+  // 已请求取消，等待服务结束正在进行的请求
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [plan, setPlan] = useState<IConversionPlan | null>(null);
+  const [checkpointStats, setCheckpointStats] = useState<ICheckpointStats | null>(null);
+  const [isCheckingImpact, setIsCheckingImpact] = useState(false);
+  // 最近一次运行的结果，用于导出报告
+  const [lastResult, setLastResult] = useState<ILinkConversionResult | null>(null);
+  // 等待确认的替换操作
+  const [pendingReplace, setPendingReplace] = useState<{ impact: IReplaceImpact; resume: boolean } | null>(null);
+  const [watchInterval, setWatchInterval] = useState(30000);
+  const [isWatching, setIsWatching] = useState(false);
+  const watcherRef = useRef<RecordWatcher | null>(null);
+  // 本次监听在运行历史中的记录，监听期间的多次运行合并到这条记录中
+  const watchHistoryIdRef = useRef<string | undefined>(undefined);
   const [progress, setProgress] = useState<IConversionProgress>({
     stage: 'scanning',
     totalUrls: 0,
@@ -38,42 +107,136 @@ export function ConvertExecutor({
     failedConversions: 0
   });
 
-  // 执行真实的转换过程
-  const executeConversion = async () => {
+  // 按记录ID的运行不使用检查点
+  const checkpointKey = urlParams.tableId && !recordIds
+    ? ConversionCheckpointStore.getKey(urlParams.tableId, config.viewId || '', config)
+    : null;
+
+  // 检查是否存在当前配置下未完成的运行
+  const refreshCheckpoint = useCallback(() => {
+    const checkpoint = checkpointKey ? ConversionCheckpointStore.load(checkpointKey) : null;
+    const stats = checkpoint ? ConversionCheckpointStore.getStats(checkpoint) : null;
+    setCheckpointStats(stats && stats.completed < stats.total ? stats : null);
+  }, [checkpointKey]);
+
+  useEffect(() => {
+    refreshCheckpoint();
+  }, [refreshCheckpoint]);
+
+  // 放弃未完成的运行
+  const discardCheckpoint = () => {
+    if (!checkpointKey) return;
+
+    ConversionCheckpointStore.remove(checkpointKey);
+    setCheckpointStats(null);
+  };
+
+  // 创建转换服务，传入 serviceRecordIds 时只处理这些记录
+  const createConversionService = (tableId: string, serviceRecordIds = recordIds) => new LinkConversionService({
+    converterConfig: config,
+    tableId,
+    viewId: config.viewId || '',
+    storageLocation: urlParams,
+    ...(serviceRecordIds ? { recordIds: serviceRecordIds } : {}),
+    onRecordsNotFound: (missingIds) => {
+      showWarning(t('converter.recordsNotFound', { ids: missingIds.join(', ') }));
+    },
+    onProgress: (progress) => {
+      setProgress(progress);
+    },
+    onError: (error) => {
+      console.error('Conversion error:', error);
+      showError('Conversion Error', error);
+    },
+    onCheckpointSaveFailed: () => {
+      showWarning(t('converter.checkpointSaveFailed'));
+    }
+  });
+
+  // 预览转换计划（dry-run），不会上传任何文件
+  const previewConversion = async () => {
+    if (!urlParams.tableId) {
+      showError(t('converter.conversionFailed'), 'Table ID not found');
+      return;
+    }
+
+    setIsPreviewing(true);
+    setPlan(null);
+
+    const service = createConversionService(urlParams.tableId);
+    conversionServiceRef.current = service;
+
+    try {
+      setPlan(await service.previewConversion());
+    } catch (error) {
+      console.error('Preview error:', error);
+      showError(
+        t('converter.previewFailed'),
+        error instanceof Error ? error.message : t('converter.conversionErrorDescription')
+      );
+    } finally {
+      setIsPreviewing(false);
+      if (conversionServiceRef.current === service) {
+        conversionServiceRef.current = null;
+      }
+    }
+  };
+
+  // 执行真实的转换过程；传入 retryItems 时只重新处理这些链接
+  const executeConversion = async ({ resume = false, retryItems, viewId = config.viewId || null, watchRecordIds }: IExecuteOptions = {}) => {
     if (!urlParams.tableId) {
       showError(t('converter.conversionFailed'), 'Table ID not found');
       return;
     }
 
     setIsExecuting(true);
+    setPlan(null);
+    setLastResult(null);
     onExecuteStart();
 
-    try {
-      // 初始化转换服务
-      conversionServiceRef.current = new LinkConversionService({
-        converterConfig: config,
-        tableId: urlParams.tableId,
-        viewId: config.viewId || '',
-        onProgress: (progress) => {
-          setProgress(progress);
-        },
-        onDownloadProgress: (url, downloadProgress) => {
-          console.log(`Download progress for ${url}:`, downloadProgress);
-        },
-        onUploadProgress: (url, uploadProgress) => {
-          console.log(`Upload progress for ${url}:`, uploadProgress);
-        },
-        onError: (error) => {
-          console.error('Conversion error:', error);
-          showError('Conversion Error', error);
-        }
-      });
+    // 初始化转换服务；监听模式按记录处理，与完整运行使用相同的写入方式和记录筛选
+    const service = createConversionService(urlParams.tableId, watchRecordIds ?? recordIds);
+    conversionServiceRef.current = service;
 
+    try {
       // 开始转换
-      const result = await conversionServiceRef.current.startConversion();
+      const startedAt = new Date();
+      const result = await service.startConversion(retryItems ? { retryItems } : { resume });
+      setLastResult(result);
+
+      const origin: Pick<IRunHistoryInput, 'retry' | 'watch'> = watchRecordIds ? { watch: true } : retryItems ? { retry: true } : {};
+      const historyInput: IRunHistoryInput = {
+        startedAt: startedAt.toISOString(),
+        viewId,
+        fieldMappings: retryItems ? getRetryMappings(retryItems) : getFieldMappings(config),
+        summary: {
+          totalUrls: result.summary.totalUrls,
+          successfulConversions: result.summary.successfulConversions,
+          failedConversions: result.summary.failedConversions,
+          skippedUrls: result.summary.skippedUrls
+        },
+        duration: result.summary.totalDuration,
+        cancelled: result.summary.cancelled,
+        ...origin,
+        failedItems: getFailedItems(result),
+        createdAttachments: result.results.flatMap(item =>
+          item.success && !item.skipped && item.attachmentId
+            ? [{ recordId: item.recordId, attachmentFieldId: item.attachmentFieldId, attachmentId: item.attachmentId }]
+            : []
+        )
+      };
+      if (!watchRecordIds) {
+        void recordRun(historyInput);
+      } else if (result.summary.totalUrls > 0) {
+        // 监听期间没有需要转换的链接的运行不写入历史，其余的合并为一条记录；
+        // 监听会等待本次运行结束才再次轮询，下一次运行一定能拿到记录ID
+        watchHistoryIdRef.current = await recordRun(historyInput, watchHistoryIdRef.current) ?? watchHistoryIdRef.current;
+      }
 
       // 显示最终结果
-      if (result.summary.successfulConversions > 0) {
+      if (result.summary.cancelled) {
+        showWarning('Conversion Cancelled', 'The conversion process has been cancelled');
+      } else if (result.summary.successfulConversions > 0) {
         showSuccess(
           t('converter.conversionCompleted'),
           t('converter.conversionSuccessDescription', {
@@ -88,7 +251,9 @@ export function ConvertExecutor({
         );
       }
 
-      console.log('Conversion completed:', result);
+      if (process.env.NODE_ENV === 'development') {
+        console.log('Conversion completed:', result);
+      }
 
     } catch (error) {
       console.error('Conversion error:', error);
@@ -105,19 +270,116 @@ export function ConvertExecutor({
       );
     } finally {
       setIsExecuting(false);
+      setIsCancelling(false);
       onExecuteComplete();
-      conversionServiceRef.current = null;
+      if (conversionServiceRef.current === service) {
+        conversionServiceRef.current = null;
+      }
+      refreshCheckpoint();
     }
   };
 
-  // 取消转换
+  // 只重试失败的链接；重试不会移除已有附件，因此无需替换确认
+  const retryFailed = (retryItems: IConversionRetryItem[], viewId?: string | null) => {
+    if (retryItems.length > 0) {
+      void executeConversion(viewId !== undefined ? { retryItems, viewId } : { retryItems });
+    }
+  };
+
+  // 监听回调在多次渲染之间保持不变，通过 ref 使用最新的 executeConversion
+  const executeConversionRef = useRef(executeConversion);
+  executeConversionRef.current = executeConversion;
+
+  const updateWatching = (watching: boolean) => {
+    setIsWatching(watching);
+    onWatchingChange?.(watching);
+  };
+
+  // 开始监听视图：新建或编辑的记录中新增的链接会自动转换
+  const startWatching = async () => {
+    if (!urlParams.tableId || !config.viewId || recordIds) return;
+
+    watchHistoryIdRef.current = undefined;
+    const watcher = new RecordWatcher({
+      tableId: urlParams.tableId,
+      viewId: config.viewId,
+      mappings: getFieldMappings(config),
+      interval: watchInterval,
+      onRecordsChanged: (changedRecordIds) => executeConversionRef.current({ watchRecordIds: changedRecordIds }),
+      onError: (error) => {
+        showError(t('converter.watchError'), error);
+      }
+    });
+
+    watcherRef.current = watcher;
+    updateWatching(true);
+    try {
+      await watcher.start();
+      showSuccess(t('converter.watchStarted'));
+    } catch (error) {
+      console.error('Watch start error:', error);
+      showError(t('converter.watchError'), error instanceof Error ? error.message : 'Unknown error');
+      stopWatching();
+    }
+  };
+
+  const stopWatching = () => {
+    watcherRef.current?.stop();
+    watcherRef.current = null;
+    updateWatching(false);
+  };
+
+  // 面板关闭时停止监听
+  useEffect(() => () => watcherRef.current?.stop(), []);
+
+  // 导出最近一次运行的报告
+  const exportReport = (format: ReportFormat) => {
+    if (!lastResult) return;
+
+    const fieldNames = Object.fromEntries(fields.map(field => [field.id, field.name]));
+    ConversionReport.download(lastResult.results, format, fieldNames);
+  };
+
+  // 开始转换；替换模式下先统计将被移除的原有附件并请求确认
+  const requestConversion = async (resume: boolean = false) => {
+    if (config.writeMode !== 'replace' || !urlParams.tableId) {
+      await executeConversion({ resume });
+      return;
+    }
+
+    setIsCheckingImpact(true);
+    try {
+      const impact = await createConversionService(urlParams.tableId).countReplaceImpact();
+      if (impact.attachments > 0) {
+        setPendingReplace({ impact, resume });
+        return;
+      }
+    } catch (error) {
+      console.error('Replace impact error:', error);
+      showError(
+        t('converter.conversionFailed'),
+        error instanceof Error ? error.message : t('converter.conversionErrorDescription')
+      );
+      return;
+    } finally {
+      setIsCheckingImpact(false);
+    }
+
+    await executeConversion({ resume });
+  };
+
+  // 确认替换后执行转换
+  const confirmReplace = () => {
+    const resume = pendingReplace?.resume ?? false;
+    setPendingReplace(null);
+    executeConversion({ resume });
+  };
+
+  // 取消转换；服务结束正在进行的请求并返回结果后，executeConversion 才会结束执行状态
   const cancelConversion = () => {
     if (conversionServiceRef.current) {
       conversionServiceRef.current.cancelConversion();
-      setIsExecuting(false);
-      onExecuteComplete();
-
-      showWarning('Conversion Cancelled', 'The conversion process has been cancelled');
+      setIsCancelling(true);
     }
   };
 
@@ -130,18 +392,12 @@ export function ConvertExecutor({
           icon: <FileText className="w-4 h-4" />,
           color: 'text-blue-600'
         };
-      case 'downloading':
+      case 'converting':
         return {
-          label: t('converter.downloadingFiles'),
+          label: t('converter.convertingLinks'),
           icon: <Link className="w-4 h-4" />,
           color: 'text-blue-600'
         };
-      case 'uploading':
-        return {
-          label: t('converter.uploadingAttachments'),
-          icon: <FileText className="w-4 h-4" />,
-          color: 'text-blue-600'
-        };
       case 'completed':
         return {
           label: t('converter.conversionCompleted'),
@@ -168,20 +424,18 @@ export function ConvertExecutor({
     if (progress.totalUrls === 0) return 0;
 
     const stageWeight = {
-      scanning: 10,
-      downloading: 70,
-      uploading: 15,
+      scanning: 5,
+      converting: 95,
       completed: 100,
       error: progress.processedUrls > 0 ? 50 : 0
     };
 
     switch (progress.stage) {
       case 'scanning':
-        return 5;
-      case 'downloading':
-        return 10 + (progress.processedUrls / progress.totalUrls) * 70;
-      case 'uploading':
-        return 85;
+        return stageWeight.scanning;
+      case 'converting':
+        // 扫描与转换并行进行，总数会随扫描增长
+        return stageWeight.scanning + (progress.processedUrls / progress.totalUrls) * stageWeight.converting;
       case 'completed':
         return 100;
       case 'error':
@@ -196,14 +450,51 @@ export function ConvertExecutor({
 
   return (
     <div className="space-y-4">
+      {/* 未完成的运行 */}
+      {checkpointStats && !isExecuting && !isWatching && (
+        <div className="flex items-center justify-between gap-3 p-3 text-sm border border-amber-200 bg-amber-50 rounded-lg">
+          <div className="flex items-center gap-2 text-amber-800">
+            <History className="w-4 h-4" />
+            <span>
+              {t('converter.unfinishedRun', {
+                completed: checkpointStats.completed,
+                total: checkpointStats.total
+              })}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => requestConversion(true)} disabled={disabled || isPreviewing || isCheckingImpact}>
+              {t('converter.resumeConversion')}
+            </Button>
+            <Button size="sm" variant="outline" onClick={discardCheckpoint} disabled={isPreviewing}>
+              {t('converter.discardCheckpoint')}
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="flex gap-2">
         <Button
-          onClick={executeConversion}
-          disabled={disabled || isExecuting}
+          onClick={previewConversion}
+          disabled={disabled || isExecuting || isPreviewing || isWatching}
+          variant="outline"
+          size="lg"
+        >
+          {isPreviewing ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Eye className="w-4 h-4 mr-2" />
+          )}
+          {t('converter.previewConversion')}
+        </Button>
+
+        <Button
+          onClick={() => requestConversion()}
+          disabled={disabled || isExecuting || isPreviewing || isCheckingImpact || isWatching}
           className="flex-1 max-w-md"
           size="lg"
         >
-          {isExecuting ? (
+          {isExecuting || isCheckingImpact ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
               {t('converter.converting')}
@@ -219,6 +510,7 @@ export function ConvertExecutor({
         {isExecuting && (
           <Button
             onClick={cancelConversion}
+            disabled={isCancelling}
             variant="outline"
             size="lg"
             className="px-6"
@@ -228,6 +520,95 @@ export function ConvertExecutor({
         )}
       </div>
 
+      {/* 监听模式 */}
+      {config.viewId && !recordIds && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Select
+              value={String(watchInterval)}
+              onValueChange={(value) => setWatchInterval(Number(value))}
+              disabled={isWatching}
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WATCH_INTERVALS.map((interval) => (
+                  <SelectItem key={interval} value={String(interval)}>
+                    {t('converter.watchInterval', { seconds: interval / 1000 })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isWatching ? (
+              <Button variant="outline" onClick={stopWatching}>
+                <EyeOff className="w-4 h-4 mr-2" />
+                {t('converter.stopWatching')}
+              </Button>
+            ) : (
+              <Button variant="outline" onClick={startWatching} disabled={disabled || isExecuting || isPreviewing}>
+                <Eye className="w-4 h-4 mr-2" />
+                {t('converter.startWatching')}
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {isWatching ? t('converter.watchingHint') : t('converter.watchDescription')}
+          </p>
+        </div>
+      )}
+
+      {/* 替换确认 */}
+      <AlertDialog open={pendingReplace !== null} onOpenChange={(open) => !open && setPendingReplace(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('converter.confirmReplaceTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('converter.confirmReplaceDescription', {
+                attachments: pendingReplace?.impact.attachments ?? 0,
+                records: pendingReplace?.impact.records ?? 0
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel', 'Cancel')}</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmReplace}>{t('converter.confirmReplace')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* 导出报告 */}
+      {lastResult && !isExecuting && lastResult.results.length > 0 && (
+        <div className="flex items-center justify-between gap-3 p-3 text-sm border rounded-lg">
+          <span className="text-muted-foreground">
+            {t('converter.reportSummary', {
+              successful: lastResult.summary.successfulConversions,
+              failed: lastResult.summary.failedConversions,
+              skipped: lastResult.summary.skippedUrls
+            })}
+          </span>
+          <div className="flex gap-2">
+            {lastResult.summary.failedConversions > 0 && (
+              <Button size="sm" variant="outline" onClick={() => retryFailed(getFailedItems(lastResult))} disabled={isWatching}>
+                <RefreshCcw className="w-4 h-4 mr-2" />
+                {t('converter.retryFailed', { count: getFailedItems(lastResult).length })}
+              </Button>
+            )}
+            <Button size="sm" variant="outline" onClick={() => exportReport('csv')}>
+              <Download className="w-4 h-4 mr-2" />
+              {t('converter.exportCsv')}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => exportReport('json')}>
+              <Download className="w-4 h-4 mr-2" />
+              {t('converter.exportJson')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* 预览计划 */}
+      {plan && !isExecuting && <ConversionPreview plan={plan} />}
+
       {/* 进度显示 */}
       {isExecuting && (
         <Card>
@@ -286,7 +667,7 @@ export function ConvertExecutor({
               )}
 
               {/* 当前文件下载进度 */}
-              {progress.stage === 'downloading' && progress.downloadProgress !== undefined && (
+              {progress.stage === 'converting' && progress.downloadProgress !== undefined && (
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span>{t('converter.currentFileProgress')}</span>
@@ -307,6 +688,14 @@ export function ConvertExecutor({
           </CardContent>
         </Card>
       )}
+
+      {/* 运行历史 */}
+      {!isExecuting && (
+        <RunHistoryPanel
+          disabled={isPreviewing || isWatching}
+          onRetry={(entry) => retryFailed(entry.failedItems ?? [], entry.viewId)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,12 +1,56 @@
 'use client';
+import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card, CardContent, CardHeader, CardTitle } from '@teable/ui-lib/dist/shadcn/ui/card';
 import { Label } from '@teable/ui-lib/dist/shadcn/ui/label';
 import { Checkbox } from '@teable/ui-lib/dist/shadcn/ui/checkbox';
 import { Slider } from '@teable/ui-lib/dist/shadcn/ui/slider';
 import { Separator } from '@teable/ui-lib/dist/shadcn/ui/separator';
-import { Settings, FileText, CheckCircle2 } from '@teable/icons';
-import { IConverterConfig, FileTypeCategory, FILE_TYPE_CATEGORIES } from './types';
+import { Textarea } from '@teable/ui-lib/dist/shadcn/ui/textarea';
+import { Input } from '@teable/ui-lib/dist/shadcn/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@teable/ui-lib/dist/shadcn/ui/select';
+import { Settings, FileText, CheckCircle2, Download, Filter, File, Zap, ListChecks } from '@teable/icons';
+import {
+  IConverterConfig,
+  FileTypeCategory,
+  FILE_TYPE_CATEGORIES,
+  FetchStrategy,
+  FETCH_STRATEGIES,
+  IHostLimitConfig,
+  IHostLimitOverride,
+  RecordFilterMode,
+  RECORD_FILTER_MODES,
+  WriteMode,
+  WRITE_MODES
+} from './types';
+import { StatusFieldSelector } from './StatusFieldSelector';
+import { FileNameTemplate } from '../../utils/fileNameTemplate';
+
+/**
+ * 将主机覆盖规则格式化为每行 "模式 并发数 每秒请求数" 的文本
+ * @param overrides 覆盖规则
+ * @returns 文本
+ */
+function formatHostOverrides(overrides: IHostLimitOverride[]): string {
+  return overrides.map(item => `${item.pattern} ${item.maxConcurrency} ${item.requestsPerSecond}`).join('\n');
+}
+
+/**
+ * 解析主机覆盖规则文本，格式不正确的行会被忽略
+ * @param text 每行 "模式 并发数 每秒请求数"
+ * @returns 覆盖规则
+ */
+function parseHostOverrides(text: string): IHostLimitOverride[] {
+  const overrides: IHostLimitOverride[] = [];
+  for (const line of text.split('\n')) {
+    const [pattern, concurrency, rps] = line.trim().split(/\s+/);
+    const maxConcurrency = Number(concurrency);
+    const requestsPerSecond = Number(rps);
+    if (!pattern || !Number.isInteger(maxConcurrency) || maxConcurrency < 0 || !(requestsPerSecond >= 0)) continue;
+    overrides.push({ pattern, maxConcurrency, requestsPerSecond });
+  }
+  return overrides;
+}
 
 interface IConverterConfigProps {
   config: IConverterConfig;
@@ -22,6 +66,12 @@ export function ConverterConfig({
   className
 }: IConverterConfigProps) {
   const { t } = useTranslation('common');
+  // 覆盖规则在编辑时保留原始文本，失去焦点时再解析
+  const [hostOverridesText, setHostOverridesText] = useState(() => formatHostOverrides(config.hostLimits.overrides));
+
+  const updateHostLimits = (hostLimits: Partial<IHostLimitConfig>) => {
+    onConfigChange({ hostLimits: { ...config.hostLimits, ...hostLimits } });
+  };
 
   const handleFileTypeToggle = (fileType: FileTypeCategory, checked: boolean) => {
     let newAllowedFileTypes: FileTypeCategory[];
@@ -146,6 +196,197 @@ export function ConverterConfig({
         </CardContent>
       </Card>
 
+      {/* 文件获取方式 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Download className="w-5 h-5" />
+            {t('converter.fetchStrategy')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={config.fetchStrategy}
+            onValueChange={(value) => onConfigChange({ fetchStrategy: value as FetchStrategy })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FETCH_STRATEGIES.map((strategy) => (
+                <SelectItem key={strategy} value={strategy}>
+                  {t(`converter.fetchStrategies.${strategy}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t(`converter.fetchStrategyDescriptions.${config.fetchStrategy}`)}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* 按主机限制 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Zap className="w-5 h-5" />
+            {t('converter.hostLimits')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>
+              {config.hostLimits.maxConcurrency > 0
+                ? t('converter.hostConcurrency', { count: config.hostLimits.maxConcurrency })
+                : t('converter.hostConcurrencyUnlimited')}
+            </Label>
+            <Slider
+              value={[config.hostLimits.maxConcurrency]}
+              onValueChange={([value]) => updateHostLimits({ maxConcurrency: value as number })}
+              max={10}
+              min={0}
+              step={1}
+              disabled={disabled}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>
+              {config.hostLimits.requestsPerSecond > 0
+                ? t('converter.hostRequestsPerSecond', { count: config.hostLimits.requestsPerSecond })
+                : t('converter.hostRequestsUnlimited')}
+            </Label>
+            <Slider
+              value={[config.hostLimits.requestsPerSecond]}
+              onValueChange={([value]) => updateHostLimits({ requestsPerSecond: value as number })}
+              max={20}
+              min={0}
+              step={1}
+              disabled={disabled}
+              className="w-full"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>{t('converter.hostOverrides')}</Label>
+            <Textarea
+              value={hostOverridesText}
+              onChange={(e) => setHostOverridesText(e.target.value)}
+              onBlur={() => {
+                const overrides = parseHostOverrides(hostOverridesText);
+                setHostOverridesText(formatHostOverrides(overrides));
+                updateHostLimits({ overrides });
+              }}
+              placeholder="*.example-cdn.com 1 2"
+              rows={3}
+              disabled={disabled}
+              className="font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              {t('converter.hostOverridesDescription')}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* 记录筛选 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <Filter className="w-5 h-5" />
+            {t('converter.recordFilter')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={config.recordFilter}
+            onValueChange={(value) => onConfigChange({ recordFilter: value as RecordFilterMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RECORD_FILTER_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {t(`converter.recordFilters.${mode}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t('converter.recordFilterDescription')}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* 写入方式 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <File className="w-5 h-5" />
+            {t('converter.writeMode')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Select
+            value={config.writeMode}
+            onValueChange={(value) => onConfigChange({ writeMode: value as WriteMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WRITE_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {t(`converter.writeModes.${mode}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            {t(`converter.writeModeDescriptions.${config.writeMode}`)}
+          </p>
+        </CardContent>
+      </Card>
+
+      {/* 状态字段 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <ListChecks className="w-5 h-5" />
+            {t('converter.statusField')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <StatusFieldSelector config={config} onConfigChange={onConfigChange} disabled={disabled} />
+        </CardContent>
+      </Card>
+
+      {/* 文件名模板 */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <FileText className="w-5 h-5" />
+            {t('converter.fileNameTemplate')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Input
+            value={config.fileNameTemplate}
+            onChange={(e) => onConfigChange({ fileNameTemplate: e.target.value })}
+            placeholder="{field:SKU}_{index}.{ext}"
+            disabled={disabled}
+            className="font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            {t('converter.fileNameTemplateDescription', { tokens: FileNameTemplate.TOKENS.join(' ') })}
+          </p>
+        </CardContent>
+      </Card>
+
       {/* 文件类型设置 */}
       <Card>
         <CardHeader>
@@ -248,6 +489,26 @@ export function ConverterConfig({
               </p>
             </div>
           </div>
+
+          {/* 移动模式 */}
+          <div className="flex items-start space-x-3">
+            <Checkbox
+              id="removeConvertedLinks"
+              checked={config.removeConvertedLinks}
+              onCheckedChange={(checked) =>
+                onConfigChange({ removeConvertedLinks: checked as boolean })
+              }
+              disabled={disabled}
+            />
+            <div className="space-y-1">
+              <Label htmlFor="removeConvertedLinks" className="font-medium">
+                {t('converter.removeConvertedLinks')}
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {t('converter.removeConvertedLinksDescription')}
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
     </div>
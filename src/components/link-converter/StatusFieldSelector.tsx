@@ -0,0 +1,89 @@
+'use client';
+import { useTranslation } from 'react-i18next';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@teable/ui-lib/dist/shadcn/ui/select';
+import { useFields } from '../../hooks/useFields';
+import { IField } from '../../types';
+import { A, LongText, ListChecks } from '@teable/icons';
+import { IConverterConfig, STATUS_FIELD_TYPES } from './types';
+
+interface IStatusFieldSelectorProps {
+  config: IConverterConfig;
+  onConfigChange: (config: Partial<IConverterConfig>) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// 不写入状态时的选项值
+const NO_STATUS_FIELD = 'none';
+
+export function StatusFieldSelector({
+  config,
+  onConfigChange,
+  disabled = false,
+  className
+}: IStatusFieldSelectorProps) {
+  const { t } = useTranslation('common');
+  const { data: fields = [], isLoading: fieldsLoading } = useFields();
+
+  // 过滤出可以写入状态的字段（单选或文本，排除计算字段和作为链接来源的字段）
+  const statusFields = fields.filter((field: IField) =>
+    STATUS_FIELD_TYPES.includes(field.type) &&
+    !field.isComputed &&
+    !field.isLookup &&
+    !config.urlFieldIds.includes(field.id)
+  );
+
+  const handleFieldChange = (fieldId: string) => {
+    onConfigChange({ statusFieldId: fieldId === NO_STATUS_FIELD ? null : fieldId });
+  };
+
+  const getFieldIcon = (type: string) => {
+    switch (type) {
+      case 'singleSelect':
+        return <ListChecks className="w-4 h-4" />;
+      case 'longText':
+        return <LongText className="w-4 h-4" />;
+      default:
+        return <A className="w-4 h-4" />;
+    }
+  };
+
+  if (fieldsLoading) {
+    return (
+      <div className={`space-y-4 ${className}`}>
+        <div className="text-sm text-muted-foreground">
+          {t('converter.loadingFields')}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <div className="text-sm text-muted-foreground">
+        {t('converter.statusFieldDescription')}
+      </div>
+
+      <Select
+        value={config.statusFieldId || NO_STATUS_FIELD}
+        onValueChange={handleFieldChange}
+        disabled={disabled}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder={t('converter.selectStatusFieldPlaceholder')} />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_STATUS_FIELD}>{t('converter.noStatusField')}</SelectItem>
+          {statusFields.map((field) => (
+            <SelectItem key={field.id} value={field.id}>
+              <div className="flex items-center gap-2">
+                {getFieldIcon(field.type)}
+                <span>{field.name}</span>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
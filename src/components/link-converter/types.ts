@@ -35,11 +35,39 @@ export const FILE_TYPE_EXTENSIONS: Record<FileTypeCategory, string[]> = {
   other: [] // 兜底类型
 };
 
+// 可以作为转换状态字段的字段类型
+export const STATUS_FIELD_TYPES = ['singleSelect', 'singleLineText', 'longText'];
+
+// 文件获取方式
+// server: 由 Teable 服务器通过 fileUrl 下载；browser: 浏览器下载后上传文件内容；auto: 先由服务器下载，失败时改为浏览器下载
+export const FETCH_STRATEGIES = ['server', 'browser', 'auto'] as const;
+export type FetchStrategy = typeof FETCH_STRATEGIES[number];
+
+// 记录筛选方式
+// all: 全部记录；attachmentEmpty: 附件字段为空；fewerAttachmentsThanUrls: 附件数量少于链接数量
+export const RECORD_FILTER_MODES = ['all', 'attachmentEmpty', 'fewerAttachmentsThanUrls'] as const;
+export type RecordFilterMode = typeof RECORD_FILTER_MODES[number];
+
+// 附件字段写入方式
+// append: 追加到原有附件之后；replace: 用转换得到的附件替换原有附件；skipIfNotEmpty: 跳过已有附件的记录
+export const WRITE_MODES = ['append', 'replace', 'skipIfNotEmpty'] as const;
+export type WriteMode = typeof WRITE_MODES[number];
+
+// 替换模式的影响范围
+export interface IReplaceImpact {
+  /** 将被移除原有附件的记录数 */
+  records: number;
+  /** 将被移除的原有附件数 */
+  attachments: number;
+}
+
+// 记录转换状态
+export type RecordConversionStatus = 'converted' | 'partial' | 'failed';
+
 // 转换阶段
 export type ConversionStage =
   | 'scanning'
-  | 'downloading'
-  | 'uploading'
+  | 'converting'
   | 'completed'
   | 'error';
 
@@ -55,14 +83,43 @@ export interface IUrlDetectionResult {
   sampleUrls: string[];
 }
 
+// 单个主机的请求限制
+export interface IHostLimit {
+  /** 同一主机同时进行的最大请求数，0 表示不限制 */
+  maxConcurrency: number;
+  /** 同一主机每秒最多发起的请求数，0 表示不限制 */
+  requestsPerSecond: number;
+}
+
+// 按主机模式覆盖默认限制，模式支持 * 通配符，如 *.cdn.example.com
+export interface IHostLimitOverride extends IHostLimit {
+  /** 主机模式 */
+  pattern: string;
+}
+
+// 按主机的请求限制配置
+export interface IHostLimitConfig extends IHostLimit {
+  /** 按主机模式的覆盖，按顺序匹配第一个 */
+  overrides: IHostLimitOverride[];
+}
+
+// 默认的主机请求限制：不限制，只在配置后对指定主机生效
+export const DEFAULT_HOST_LIMITS: IHostLimitConfig = {
+  maxConcurrency: 0,
+  requestsPerSecond: 0,
+  overrides: []
+};
+
 // 转换器配置
 export interface IConverterConfig {
   /** 视图ID */
   viewId?: string;
   /** URL字段ID列表 */
   urlFieldIds: string[];
-  /** 附件字段ID */
+  /** 附件字段ID（默认目标字段） */
   attachmentFieldId: string;
+  /** 单独指定目标附件字段的URL字段：URL字段ID -> 附件字段ID，未指定的URL字段写入 attachmentFieldId */
+  fieldTargets?: Record<string, string>;
   /** 最大文件大小 (MB) */
   maxFileSize: number;
   /** 并发限制 */
@@ -73,6 +130,97 @@ export interface IConverterConfig {
   allowAllFileTypes: boolean;
   /** 是否保留原始链接 */
   preserveOriginalLink: boolean;
+  /** 附件文件名模板，如 {field:SKU}_{index}.{ext}；为空时使用服务器或URL提供的文件名 */
+  fileNameTemplate: string;
+  /** 文件获取方式 */
+  fetchStrategy: FetchStrategy;
+  /** 按主机的并发数和请求频率限制 */
+  hostLimits: IHostLimitConfig;
+  /** 记录筛选方式 */
+  recordFilter: RecordFilterMode;
+  /** 附件字段写入方式 */
+  writeMode: WriteMode;
+  /** 是否在转换成功后从源文本字段中移除该链接（移动模式） */
+  removeConvertedLinks: boolean;
+  /** 写入每条记录转换状态的字段ID（单选或文本，可选） */
+  statusFieldId?: string | null;
+}
+
+// 与视图和字段映射无关的转换选项
+export type ConverterOptions = Omit<IConverterConfig, 'viewId' | 'urlFieldIds' | 'attachmentFieldId' | 'fieldTargets'>;
+
+// 转换选项的默认值
+export const DEFAULT_CONVERTER_OPTIONS: ConverterOptions = {
+  maxFileSize: 100,
+  concurrencyLimit: 3,
+  allowedFileTypes: [],
+  allowAllFileTypes: true,
+  preserveOriginalLink: true,
+  fileNameTemplate: '',
+  fetchStrategy: 'server',
+  hostLimits: DEFAULT_HOST_LIMITS,
+  recordFilter: 'all',
+  writeMode: 'append',
+  removeConvertedLinks: false,
+  statusFieldId: null
+};
+
+// 源字段到目标附件字段的映射
+export interface IFieldMapping {
+  /** URL字段ID */
+  urlFieldId: string;
+  /** 附件字段ID */
+  attachmentFieldId: string;
+}
+
+// 需要重试的单个链接，保留原始运行中的记录和字段映射
+export interface IConversionRetryItem extends IFieldMapping {
+  /** 记录ID */
+  recordId: string;
+  /** 原始URL */
+  url: string;
+}
+
+/**
+ * 获取每个URL字段对应的目标附件字段
+ * @param config 转换配置
+ * @returns 字段映射，顺序与 urlFieldIds 一致
+ */
+export function getFieldMappings(
+  config: Pick<IConverterConfig, 'urlFieldIds' | 'attachmentFieldId' | 'fieldTargets'>
+): IFieldMapping[] {
+  return config.urlFieldIds.map(urlFieldId => ({
+    urlFieldId,
+    attachmentFieldId: config.fieldTargets?.[urlFieldId] || config.attachmentFieldId
+  }));
+}
+
+/**
+ * 将字段映射转换为转换配置中的字段设置，每个URL字段只能出现在一个映射中
+ * @param mappings 字段映射
+ * @returns URL字段、默认附件字段和各URL字段的目标附件字段
+ */
+export function toFieldTargets(
+  mappings: IFieldMapping[]
+): Pick<IConverterConfig, 'urlFieldIds' | 'attachmentFieldId' | 'fieldTargets'> {
+  return {
+    urlFieldIds: mappings.map(mapping => mapping.urlFieldId),
+    attachmentFieldId: mappings[0]?.attachmentFieldId ?? '',
+    fieldTargets: Object.fromEntries(mappings.map(mapping => [mapping.urlFieldId, mapping.attachmentFieldId]))
+  };
+}
+
+/**
+ * 获取重试链接中出现的字段映射（去重）
+ * @param retryItems 重试的链接
+ * @returns 字段映射
+ */
+export function getRetryMappings(retryItems: IConversionRetryItem[]): IFieldMapping[] {
+  const mappings = new Map<string, IFieldMapping>();
+  for (const { urlFieldId, attachmentFieldId } of retryItems) {
+    mappings.set(`${urlFieldId}>${attachmentFieldId}`, { urlFieldId, attachmentFieldId });
+  }
+  return Array.from(mappings.values());
 }
 
 // 转换进度
@@ -93,6 +241,14 @@ export interface IConversionProgress {
   downloadProgress?: number;
 }
 
+// 跳过原因
+export type ConversionSkipReason =
+  | 'invalidUrl'
+  | 'fileTypeNotAllowed'
+  | 'fileTooLarge'
+  | 'webPage'
+  | 'alreadyConverted';
+
 // 转换结果
 export interface IConversionResult {
   /** 原始URL */
@@ -101,8 +257,14 @@ export interface IConversionResult {
   recordId: string;
   /** 字段ID */
   fieldId: string;
+  /** 目标附件字段ID */
+  attachmentFieldId: string;
   /** 是否成功 */
   success: boolean;
+  /** 是否被跳过（未实际上传） */
+  skipped?: boolean;
+  /** 跳过原因；预检未通过而未上传的链接也会记录原因 */
+  skipReason?: ConversionSkipReason;
   /** 错误信息 */
   errorMessage?: string;
   /** 附件ID */
@@ -113,4 +275,44 @@ export interface IConversionResult {
   fileSize?: number;
   /** 处理时间 (毫秒) */
   processingTime: number;
-}
\ No newline at end of file
+}
+
+// 预览计划中的单个链接
+export interface IConversionPlanItem {
+  /** 原始URL */
+  url: string;
+  /** 字段ID */
+  fieldId: string;
+  /** 字段名称 */
+  fieldName: string;
+  /** 将要使用的文件名 */
+  fileName: string;
+  /** 文件大小 (字节，HEAD 请求可获取时) */
+  fileSize?: number;
+  /** 是否会被跳过 */
+  willSkip: boolean;
+  /** 跳过原因 */
+  skipReason?: ConversionSkipReason;
+}
+
+// 预览计划中的单条记录
+export interface IConversionPlanRecord {
+  /** 记录ID */
+  recordId: string;
+  /** 记录中找到的链接 */
+  items: IConversionPlanItem[];
+}
+
+// 转换预览计划（dry-run 结果）
+export interface IConversionPlan {
+  /** 包含链接的记录数 */
+  totalRecords: number;
+  /** 总URL数 */
+  totalUrls: number;
+  /** 将会转换的URL数 */
+  convertibleUrls: number;
+  /** 将会跳过的URL数 */
+  skippedUrls: number;
+  /** 按记录分组的计划明细 */
+  records: IConversionPlanRecord[];
+}
@@ -0,0 +1,90 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import * as openApi from '@teable/openapi';
+import { useGlobalUrlParams } from './useGlobalUrlParams';
+import { IRunHistoryEntry, IRunHistoryUser, RunHistoryStore } from '../utils/runHistoryStore';
+import { AttachmentRemover, IAttachmentRemovalResult } from '../utils/attachmentRemover';
+
+/**
+ * 记录运行时由调用方提供的部分，发起人、ID 等由 hook 补全
+ */
+export type IRunHistoryInput = Omit<IRunHistoryEntry, 'id' | 'startedBy' | 'tableId' | 'undone'>;
+
+/**
+ * Hook for reading and appending the conversion run history of the current
+ * plugin installation. History is shared by everyone using the installation.
+ *
+ * @returns React Query result with run history, plus recordRun and undoRun functions
+ */
+export function useRunHistory() {
+  const urlParams = useGlobalUrlParams();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['run-history', urlParams.pluginInstallId],
+    queryFn: async () => {
+      try {
+        return await RunHistoryStore.load(urlParams);
+      } catch (error) {
+        console.error('Failed to fetch run history:', error);
+        return [];
+      }
+    },
+    enabled: !!urlParams.pluginInstallId,
+  });
+
+  // 当前用户只需获取一次
+  const getCurrentUser = useCallback(() => queryClient.fetchQuery({
+    queryKey: ['user-me'],
+    queryFn: async (): Promise<IRunHistoryUser | null> => {
+      try {
+        const { data } = await openApi.userMe();
+        return { id: data.id, name: data.name };
+      } catch (error) {
+        console.error('Failed to fetch current user:', error);
+        return null;
+      }
+    },
+    staleTime: Infinity,
+  }), [queryClient]);
+
+  // 传入 mergeIntoId 时合并到该记录中，返回写入的记录ID，记录失败时为 undefined
+  const recordRun = useCallback(async (input: IRunHistoryInput, mergeIntoId?: string): Promise<string | undefined> => {
+    if (!urlParams.tableId) return undefined;
+
+    try {
+      const id = await RunHistoryStore.append(urlParams, {
+        ...input,
+        id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+        startedBy: await getCurrentUser(),
+        tableId: urlParams.tableId
+      }, mergeIntoId);
+      await queryClient.invalidateQueries({ queryKey: ['run-history', urlParams.pluginInstallId] });
+      return id;
+    } catch (error) {
+      // 历史记录失败不影响转换结果
+      console.error('Failed to record run history:', error);
+      return undefined;
+    }
+  }, [urlParams, queryClient, getCurrentUser]);
+
+  // 撤销一次运行：只移除该运行创建的附件，并在历史中标记为已撤销
+  const undoRun = useCallback(async (
+    entry: IRunHistoryEntry,
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<IAttachmentRemovalResult> => {
+    const result = await AttachmentRemover.remove(entry.tableId, entry.createdAttachments ?? [], onProgress);
+
+    // 部分记录更新失败时不标记，允许再次撤销剩余的附件
+    if (result.failedRecordIds.length === 0) {
+      await RunHistoryStore.update(urlParams, entry.id, {
+        undone: { at: new Date().toISOString(), by: await getCurrentUser() }
+      });
+      await queryClient.invalidateQueries({ queryKey: ['run-history', urlParams.pluginInstallId] });
+    }
+
+    return result;
+  }, [urlParams, queryClient, getCurrentUser]);
+
+  return { ...query, recordRun, undoRun };
+}
@@ -4,10 +4,41 @@
  */
 
 import * as openApi from '@teable/openapi';
+import { FieldKeyType, FieldType } from '@teable/core';
+import type { IAttachmentItem, IFilterSet, IRecord } from '@teable/core';
 import { UrlDetector } from '../utils/urlDetector';
-import { FileDownloader, IDownloadResult } from '../utils/fileDownloader';
+import { FileDownloader, IDownloadResult, IFileInspection } from '../utils/fileDownloader';
 import { AttachmentUploader, IUploadResult } from '../utils/attachmentUploader';
-import { IConverterConfig, IConversionProgress, IConversionResult } from '../components/link-converter/types';
+import {
+  ConversionCheckpointStore,
+  IConversionCheckpoint,
+  ICheckpointWriteBackItem,
+  CheckpointItemStatus
+} from '../utils/conversionCheckpoint';
+import { AttachmentSourceStore, AttachmentSourceMap } from '../utils/attachmentSourceStore';
+import { IPluginStorageLocation } from '../utils/pluginStorage';
+import { runWorkPool } from '../utils/workPool';
+import { RequestErrorKind } from '../utils/retryPolicy';
+import { HostScheduler } from '../utils/hostScheduler';
+import { FileNameTemplate } from '../utils/fileNameTemplate';
+import { FileTypeSniffer } from '../utils/fileTypeSniffer';
+import { AttachmentRemover } from '../utils/attachmentRemover';
+import {
+  IConverterConfig,
+  IConversionProgress,
+  IConversionResult,
+  IConversionPlan,
+  IConversionPlanRecord,
+  IFieldMapping,
+  IConversionRetryItem,
+  IReplaceImpact,
+  getFieldMappings,
+  getRetryMappings,
+  ConversionSkipReason,
+  RecordConversionStatus,
+  WriteMode,
+  STATUS_FIELD_TYPES
+} from '../components/link-converter/types';
 
 // 临时的配置接口，用于避免类型问题
 interface IPartialDownloadConfig {
@@ -16,13 +47,16 @@ interface IPartialDownloadConfig {
   allowedFileTypes: string[];
   allowAllFileTypes: boolean;
   timeout: number;
+  stallTimeout: number;
   retryCount: number;
   retryDelay: number;
+  scheduler: HostScheduler;
   onProgress?: (url: string, progress: any) => void;
 }
 
 interface IPartialUploadConfig {
   timeout: number;
+  stallTimeout: number;
   maxConcurrency: number;
   preserveOriginalLink: boolean;
   retryCount: number;
@@ -30,6 +64,96 @@ interface IPartialUploadConfig {
   onProgress?: (url: string, progress: any) => void;
 }
 
+/**
+ * 转换工作项
+ * 每个工作项对应某条记录某个字段中的一个URL，从扫描到上传始终携带同一身份，
+ * 同一URL出现在多条记录中时会分别上传到各自的记录
+ */
+interface IConversionWorkItem {
+  /** 扫描顺序序号，运行期间唯一 */
+  index: number;
+  /** 记录ID */
+  recordId: string;
+  /** 源字段ID */
+  fieldId: string;
+  /** 源字段名称 */
+  fieldName: string;
+  /** 目标附件字段ID */
+  attachmentFieldId: string;
+  /** 原始URL */
+  url: string;
+  /** 链接在该记录目标附件字段中的序号，从1开始，用于文件名模板 */
+  position: number;
+  /** 文件名模板引用的字段值，未配置模板时为空 */
+  templateFields?: Record<string, string>;
+  /** 按模板命名前服务器或URL提供的文件名，未配置模板时为空 */
+  originalFileName?: string;
+  /** 记录在目标附件字段中已有的附件 */
+  existingAttachments: IAttachmentItem[];
+  /** 预检结果（由服务器获取文件时） */
+  inspection?: IFileInspection;
+  /** 下载结果（由浏览器获取文件时） */
+  download?: IDownloadResult;
+  /** 目标附件字段中已存在的对应附件（已转换过时） */
+  convertedAttachment?: IAttachmentItem;
+  /** 上传结果 */
+  upload?: IUploadResult;
+  /** 自动模式下服务器获取失败的错误信息 */
+  serverError?: string;
+}
+
+/**
+ * 本次运行中已上传、可以复用到其他记录的文件
+ */
+interface IUploadedFile {
+  /** 第一次上传得到的附件 */
+  attachment: IAttachmentItem;
+  /** 按模板命名前的文件名，其他记录按各自的模板重新命名 */
+  originalName: string;
+}
+
+/**
+ * 本次运行中链接本身无法转换的结果，同一URL的其他记录直接沿用，不再重新获取
+ */
+interface IFailedFetch {
+  failure: Pick<IConversionWorkItem, 'inspection' | 'download' | 'serverError'>;
+}
+
+// 与记录无关、重试也不会成功的下载错误（HTTP 4xx、地址无效、类型不允许、文件过大等）
+const PERMANENT_ERROR_KINDS: RequestErrorKind[] = ['clientError', 'other'];
+
+/**
+ * 单次转换运行的流水线状态
+ */
+interface IConversionRunState {
+  /** 已扫描到的待处理链接数，扫描与处理并行进行，会随扫描增长 */
+  totalUrls: number;
+  /** 检查点中已完成而跳过的链接数 */
+  resumedUrls: number;
+  /** 已处理的链接数 */
+  processedUrls: number;
+  /** 成功转换数 */
+  successfulConversions: number;
+  /** 失败转换数 */
+  failedConversions: number;
+  /** 转换结果，按扫描序号索引 */
+  results: Map<number, IConversionResult>;
+  /** 记录ID -> 尚未处理完的链接数 */
+  pendingRecordItems: Map<string, number>;
+  /** 记录ID -> 已处理完的链接结果 */
+  recordResults: Map<string, IConversionResult[]>;
+  /** 全部链接已处理完、等待回写的记录结果 */
+  writeBackQueue: IConversionResult[][];
+  /** 记录ID -> 检查点中已完成的附件（替换模式下需要保留） */
+  resumedAttachments: Map<string, Array<{ attachmentFieldId: string; attachmentId: string }>>;
+  /** 附件字段ID -> 已有附件的来源映射 */
+  sources: Map<string, AttachmentSourceMap>;
+  /** URL -> 该URL最近一次获取的结果，获取中时为未完成的 Promise，失败后可以重新获取时为 null */
+  uploadedFiles: Map<string, Promise<IUploadedFile | IFailedFetch | null>>;
+  /** 状态字段是否附带错误信息，不写入状态时为空 */
+  statusIncludesErrors?: boolean;
+}
+
 /**
  * 转换服务配置
  */
@@ -40,6 +164,12 @@ export interface IConversionServiceConfig {
   tableId: string;
   /** 视图ID */
   viewId: string;
+  /** 插件实例的定位参数，附件来源映射保存在插件实例的 storage 中 */
+  storageLocation?: Partial<IPluginStorageLocation>;
+  /** 只处理这些记录，不扫描视图 */
+  recordIds?: string[];
+  /** 按记录ID读取时找不到记录的回调 */
+  onRecordsNotFound?: (recordIds: string[]) => void;
   /** 进度回调 */
   onProgress?: (progress: IConversionProgress) => void;
   /** 下载进度回调 */
@@ -48,8 +178,45 @@ export interface IConversionServiceConfig {
   onUploadProgress?: (url: string, progress: any) => void;
   /** 错误回调 */
   onError?: (error: string) => void;
+  /** 检查点保存失败的回调，每次运行最多调用一次 */
+  onCheckpointSaveFailed?: () => void;
+}
+
+/**
+ * 转换启动选项
+ */
+export interface IConversionStartOptions {
+  /** 是否从已保存的检查点继续，跳过已完成的链接 */
+  resume?: boolean;
+  /** 只重新处理这些链接（重试上次失败的链接），不扫描视图 */
+  retryItems?: IConversionRetryItem[];
 }
 
+// 按记录ID读取记录时每批的请求数
+const RECORD_FETCH_BATCH_SIZE = 20;
+
+// 移动模式下每批回写的记录数
+const LINK_REMOVAL_BATCH_SIZE = 20;
+
+// 状态字段每批回写的记录数
+const STATUS_UPDATE_BATCH_SIZE = 100;
+
+// 附件来源每批写入插件 storage 的链接数
+const SOURCE_SAVE_BATCH_SIZE = 100;
+
+// 预检未通过时的错误信息，与下载器的错误信息保持一致
+const INSPECTION_ERRORS: Record<ConversionSkipReason, string> = {
+  invalidUrl: 'Invalid URL format',
+  fileTypeNotAllowed: 'File type not allowed',
+  fileTooLarge: 'File size exceeds limit',
+  webPage: 'Response is a web page, not a file',
+  alreadyConverted: 'Already converted'
+};
+
+// 检查点写入 localStorage 的最小间隔 (毫秒)，避免大表每处理一个链接就序列化一次；
+// 页面隐藏或卸载时会立即保存，不会丢失间隔内完成的链接
+const CHECKPOINT_SAVE_INTERVAL = 1000;
+
 /**
  * 链接转换结果
  */
@@ -66,6 +233,8 @@ export interface ILinkConversionResult {
     totalDuration: number;
     /** 跳过的链接数 */
     skippedUrls: number;
+    /** 是否被取消 */
+    cancelled: boolean;
   };
   /** 详细转换结果 */
   results: IConversionResult[];
@@ -78,8 +247,21 @@ export class LinkConversionService {
   private config: IConversionServiceConfig;
   private downloader?: FileDownloader;
   private uploader?: AttachmentUploader;
+  private scheduler?: HostScheduler;
   private isConverting = false;
   private abortController?: AbortController;
+  private checkpoint?: IConversionCheckpoint;
+  // 链接键 -> 本次运行中扫描到的链接及其状态
+  private checkpointItems = new Map<string, { status: CheckpointItemStatus; item: IConversionRetryItem }>();
+  private previousCompletedItems: Record<string, string> = {};
+  private previousAwaitingItems: Record<string, ICheckpointWriteBackItem> = {};
+  private attachmentCellLocks = new Map<string, Promise<void>>();
+  private lastCheckpointSave = 0;
+  private checkpointSaveFailed = false;
+  private pendingSources = new Map<string, Record<string, string>>();
+  private pendingSourceCount = 0;
+  private sourceSaving: Promise<void> = Promise.resolve();
+  private retryItems: IConversionRetryItem[] | undefined;
 
   constructor(config: IConversionServiceConfig) {
     this.config = config;
@@ -87,20 +269,25 @@ export class LinkConversionService {
 
   /**
    * 开始转换流程
+   * 扫描与处理以流水线方式进行：分页扫描得到的每个链接依次经过 下载 → 上传 → 回写，
+   * 同时处理的链接数受并发限制约束，只有出现空闲槽位时才会继续扫描下一页（背压），
+   * 文件内容在上传后立即释放，内存占用只与并发数相关，与表格大小无关
+   * @param options 启动选项
    * @returns 转换结果
    */
-  async startConversion(): Promise<ILinkConversionResult> {
+  async startConversion(options: IConversionStartOptions = {}): Promise<ILinkConversionResult> {
     if (this.isConverting) {
       throw new Error('Conversion is already in progress');
     }
 
     this.isConverting = true;
     this.abortController = new AbortController();
+    this.retryItems = options.retryItems;
 
     const startTime = Date.now();
+    const { converterConfig } = this.config;
 
     try {
-      // 阶段1: 扫描URL
       this.updateProgress({
         stage: 'scanning',
         totalUrls: 0,
@@ -109,63 +296,181 @@ export class LinkConversionService {
         failedConversions: 0
       });
 
-      const urlRecords = await this.scanUrls();
-      const totalUrls = urlRecords.length;
-
-      if (totalUrls === 0) {
-        return {
-          summary: {
-            totalUrls: 0,
-            successfulConversions: 0,
-            failedConversions: 0,
-            totalDuration: Date.now() - startTime,
-            skippedUrls: 0
-          },
-          results: []
-        };
-      }
-
       // 初始化下载器和上传器
       this.initializeServices();
 
-      // 阶段2: 下载文件
-      this.updateProgress({
-        stage: 'downloading',
-        totalUrls,
+      // 建立检查点，续传时跳过检查点中已完成的链接；
+      // 重试和按记录ID的运行不使用检查点，避免覆盖未完成的视图运行
+      if (!this.retryItems && !this.config.recordIds) {
+        this.beginCheckpoint(options.resume ?? false);
+        window.addEventListener('pagehide', this.handlePageHide);
+      }
+
+      const run: IConversionRunState = {
+        totalUrls: 0,
+        resumedUrls: 0,
         processedUrls: 0,
         successfulConversions: 0,
-        failedConversions: 0
+        failedConversions: 0,
+        results: new Map(),
+        pendingRecordItems: new Map(),
+        recordResults: new Map(),
+        writeBackQueue: [],
+        resumedAttachments: new Map(),
+        sources: await this.loadAttachmentSources(),
+        uploadedFiles: new Map()
+      };
+
+      // 状态字段类型只需读取一次
+      if (converterConfig.statusFieldId) {
+        const includeErrors = await this.getStatusIncludesErrors(converterConfig.statusFieldId);
+        if (includeErrors !== undefined) {
+          run.statusIncludesErrors = includeErrors;
+        }
+      }
+
+      await runWorkPool(
+        this.scanWorkItems(run),
+        converterConfig.concurrencyLimit,
+        item => this.processWorkItem(item, run),
+        this.abortController.signal
+      );
+
+      // 回写最后一批已完成的记录，并等待附件来源写入完成
+      await this.flushWriteBacks(run, true);
+      await this.flushSources(true);
+
+      // 运行正常结束，检查点不再需要；取消或有记录回写失败时保留检查点以便续传
+      if (!this.abortController.signal.aborted && !this.hasItemsAwaitingWriteBack()) {
+        this.clearCheckpoint();
+      }
+
+      const finalResults = Array.from(run.results.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([, result]) => result);
+
+      this.updateProgress({
+        stage: 'completed',
+        totalUrls: run.totalUrls,
+        processedUrls: run.processedUrls,
+        successfulConversions: run.successfulConversions,
+        failedConversions: run.failedConversions
       });
 
-      const downloadResults = await this.downloadFiles(urlRecords);
+      return {
+        summary: {
+          totalUrls: run.totalUrls,
+          successfulConversions: run.successfulConversions,
+          failedConversions: run.failedConversions,
+          totalDuration: Date.now() - startTime,
+          skippedUrls: run.resumedUrls + finalResults.filter(r => r.skipped).length,
+          cancelled: this.abortController.signal.aborted
+        },
+        results: finalResults
+      };
 
-      // 阶段3: 上传附件
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown conversion error';
+      this.config.onError?.(errorMessage);
+      throw error;
+    } finally {
+      // 异常中断时保留检查点，并写入已排队的附件来源，以便下次续传
+      this.persistCheckpoint(true);
+      void this.flushSources(true);
+      window.removeEventListener('pagehide', this.handlePageHide);
+      this.isConverting = false;
+      this.cleanup();
+    }
+  }
+
+  /**
+   * 预览转换（dry-run）
+   * 扫描URL并执行文件类型/大小检查，但不会调用上传器，不会修改任何记录
+   * @returns 转换计划
+   */
+  async previewConversion(): Promise<IConversionPlan> {
+    if (this.isConverting) {
+      throw new Error('Conversion is already in progress');
+    }
+
+    this.isConverting = true;
+    this.abortController = new AbortController();
+
+    try {
       this.updateProgress({
-        stage: 'uploading',
-        totalUrls,
+        stage: 'scanning',
+        totalUrls: 0,
         processedUrls: 0,
         successfulConversions: 0,
         failedConversions: 0
       });
 
-      const uploadResults = await this.uploadAttachments(downloadResults);
+      const workItems = await this.scanUrls();
+
+      this.initializeServices();
+
+      // 按并发限制分批预检，避免对大表同时发起过多 HEAD 请求
+      const inspections: IFileInspection[] = [];
+      const batchSize = Math.max(1, this.config.converterConfig.concurrencyLimit);
+      for (let i = 0; i < workItems.length; i += batchSize) {
+        if (this.abortController.signal.aborted) {
+          throw new Error('Preview was cancelled');
+        }
 
-      // 生成最终结果
-      const finalResults = this.generateFinalResults(urlRecords, downloadResults, uploadResults);
+        const batch = workItems.slice(i, i + batchSize);
+        inspections.push(...await Promise.all(batch.map(item => this.downloader!.inspectFile(item.url))));
+      }
+
+      // 按记录分组，保持扫描顺序
+      const sources = await this.loadAttachmentSources();
+      const recordMap = new Map<string, IConversionPlanRecord>();
+      workItems.forEach((item) => {
+        const inspection = inspections[item.index]!;
+
+        // 与实际运行一样按文件名模板命名
+        inspection.fileName = this.getFileName(item, inspection.fileName);
+
+        // 已经转换过的链接在实际运行中也会被跳过
+        if (inspection.allowed && AttachmentSourceStore.findConvertedAttachment(
+          item.existingAttachments,
+          sources.get(item.attachmentFieldId) ?? {},
+          item.url,
+          this.getCandidateFileNames(item.url, inspection.fileName),
+          inspection.fileSize
+        )) {
+          inspection.allowed = false;
+          inspection.reason = 'alreadyConverted';
+        }
+
+        let planRecord = recordMap.get(item.recordId);
+        if (!planRecord) {
+          planRecord = { recordId: item.recordId, items: [] };
+          recordMap.set(item.recordId, planRecord);
+        }
+
+        planRecord.items.push({
+          url: item.url,
+          fieldId: item.fieldId,
+          fieldName: item.fieldName,
+          fileName: inspection.fileName,
+          willSkip: !inspection.allowed,
+          ...(inspection.fileSize !== undefined ? { fileSize: inspection.fileSize } : {}),
+          ...(inspection.reason ? { skipReason: inspection.reason } : {})
+        });
+      });
+
+      const skippedUrls = inspections.filter(inspection => !inspection.allowed).length;
 
       return {
-        summary: {
-          totalUrls,
-          successfulConversions: finalResults.filter(r => r.success).length,
-          failedConversions: finalResults.filter(r => !r.success).length,
-          totalDuration: Date.now() - startTime,
-          skippedUrls: 0
-        },
-        results: finalResults
+        totalRecords: recordMap.size,
+        totalUrls: workItems.length,
+        convertibleUrls: workItems.length - skippedUrls,
+        skippedUrls,
+        records: Array.from(recordMap.values())
       };
 
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown conversion error';
+      const errorMessage = error instanceof Error ? error.message : 'Unknown preview error';
       this.config.onError?.(errorMessage);
       throw error;
     } finally {
@@ -174,6 +479,89 @@ export class LinkConversionService {
     }
   }
 
+  /**
+   * 统计替换模式将会移除的原有附件
+   * 与实际运行相同，由对应链接转换而来的附件会被保留，不计入统计：
+   * 先按来源映射匹配，其余链接预检后按 文件名 + 文件大小 匹配
+   * @returns 受影响的记录数和附件数
+   */
+  async countReplaceImpact(): Promise<IReplaceImpact> {
+    if (this.isConverting) {
+      throw new Error('Conversion is already in progress');
+    }
+
+    this.isConverting = true;
+
+    try {
+      const workItems = await this.scanUrls();
+      const sources = await this.loadAttachmentSources();
+
+      // recordId|附件字段ID -> 该单元格中会被保留的附件ID
+      const keptAttachments = new Map<string, Set<string>>();
+      const keepAttachment = (item: IConversionWorkItem, attachment: IAttachmentItem | undefined): boolean => {
+        if (!attachment) return false;
+        const key = `${item.recordId}|${item.attachmentFieldId}`;
+        keptAttachments.set(key, (keptAttachments.get(key) ?? new Set()).add(attachment.id));
+        return true;
+      };
+
+      const unmatchedItems = workItems.filter(item => item.existingAttachments.length > 0 && !keepAttachment(
+        item,
+        AttachmentSourceStore.findConvertedAttachment(
+          item.existingAttachments,
+          sources.get(item.attachmentFieldId) ?? {},
+          item.url,
+          []
+        )
+      ));
+
+      // 按并发限制分批预检，与 matchConvertedAttachment 使用相同的文件名和大小
+      if (unmatchedItems.length > 0) {
+        this.initializeServices();
+        const batchSize = Math.max(1, this.config.converterConfig.concurrencyLimit);
+        for (let i = 0; i < unmatchedItems.length; i += batchSize) {
+          const batch = unmatchedItems.slice(i, i + batchSize);
+          const inspections = await Promise.all(batch.map(item => this.downloader!.inspectFile(item.url)));
+
+          batch.forEach((item, index) => {
+            const inspection = inspections[index]!;
+            if (!inspection.allowed) return;
+
+            keepAttachment(item, AttachmentSourceStore.findConvertedAttachment(
+              item.existingAttachments,
+              sources.get(item.attachmentFieldId) ?? {},
+              item.url,
+              this.getCandidateFileNames(item.url, this.getFileName(item, inspection.fileName)),
+              inspection.fileSize
+            ));
+          });
+        }
+      }
+
+      const affectedRecords = new Set<string>();
+      let attachments = 0;
+      const countedCells = new Set<string>();
+
+      for (const item of workItems) {
+        const key = `${item.recordId}|${item.attachmentFieldId}`;
+        if (countedCells.has(key)) continue;
+        countedCells.add(key);
+
+        const kept = keptAttachments.get(key);
+        const removed = item.existingAttachments.filter(attachment => !kept?.has(attachment.id)).length;
+        if (removed > 0) {
+          affectedRecords.add(item.recordId);
+          attachments += removed;
+        }
+      }
+
+      return { records: affectedRecords.size, attachments };
+    } finally {
+      this.isConverting = false;
+      this.cleanup();
+    }
+  }
+
   /**
    * 取消转换
    */
@@ -183,209 +571,1362 @@ export class LinkConversionService {
     }
     this.downloader?.cancelAllDownloads();
     this.uploader?.cancelAllUploads();
+    this.scheduler?.clear();
+    this.persistCheckpoint(true);
     this.isConverting = false;
   }
 
   /**
-   * 扫描表格记录中的URL
-   * @returns 包含URL的记录数组
+   * 获取当前配置对应的检查点存储键
+   * @returns 存储键
    */
-  private async scanUrls(): Promise<Array<{
-    recordId: string;
-    fieldId: string;
-    url: string;
-    fieldName: string;
-  }>> {
-    const { tableId, viewId } = this.config;
-    const urlRecords: Array<{
-      recordId: string;
-      fieldId: string;
-      url: string;
-      fieldName: string;
-    }> = [];
+  getCheckpointKey(): string {
+    return ConversionCheckpointStore.getKey(this.config.tableId, this.config.viewId, this.config.converterConfig);
+  }
+
+  /**
+   * 初始化本次运行的检查点
+   * 扫描与处理并行进行，链接在扫描到时通过 registerCheckpointItem 逐个加入
+   * @param resume 是否从已有检查点继续
+   */
+  private beginCheckpoint(resume: boolean): void {
+    const key = this.getCheckpointKey();
+    const previous = resume ? ConversionCheckpointStore.load(key) : null;
+
+    this.previousCompletedItems = previous?.completed ?? {};
+    this.previousAwaitingItems = previous?.awaitingWriteBack ?? {};
+    this.checkpointItems.clear();
+    this.checkpointSaveFailed = false;
+    this.checkpoint = {
+      key,
+      tableId: this.config.tableId,
+      viewId: this.config.viewId,
+      startedAt: previous?.startedAt ?? Date.now(),
+      updatedAt: Date.now(),
+      completed: {},
+      awaitingWriteBack: {},
+      failed: [],
+      pending: []
+    };
+    this.persistCheckpoint(true);
+  }
+
+  /**
+   * 将扫描到的链接加入检查点
+   * @param workItem 工作项
+   * @returns 链接在检查点中的状态；只有待处理的链接需要转换，已转换但未回写的链接只需重新回写所在记录
+   */
+  private registerCheckpointItem(workItem: IConversionWorkItem): CheckpointItemStatus {
+    if (!this.checkpoint) return 'pending';
+
+    const itemKey = ConversionCheckpointStore.getItemKey(workItem.recordId, workItem.fieldId, workItem.url);
+    const item: IConversionRetryItem = {
+      recordId: workItem.recordId,
+      urlFieldId: workItem.fieldId,
+      attachmentFieldId: workItem.attachmentFieldId,
+      url: workItem.url
+    };
+
+    const completedAttachmentId = this.previousCompletedItems[itemKey];
+    if (completedAttachmentId !== undefined) {
+      this.checkpoint.completed[itemKey] = completedAttachmentId;
+      this.checkpointItems.set(itemKey, { status: 'completed', item });
+      return 'completed';
+    }
+
+    const awaitingItem = this.previousAwaitingItems[itemKey];
+    if (awaitingItem) {
+      this.checkpoint.awaitingWriteBack[itemKey] = awaitingItem;
+      this.checkpointItems.set(itemKey, { status: 'awaitingWriteBack', item });
+      return 'awaitingWriteBack';
+    }
+
+    this.checkpointItems.set(itemKey, { status: 'pending', item });
+    this.persistCheckpoint();
+    return 'pending';
+  }
+
+  /**
+   * 取出上次运行中已转换但尚未回写、本次扫描没有扫描到的链接（如记录筛选条件排除了已有附件的记录），
+   * 加入本次运行的检查点，由调用方重新回写
+   * @returns 未扫描到的未回写链接
+   */
+  private takeUnscannedWriteBackItems(): ICheckpointWriteBackItem[] {
+    const { checkpoint } = this;
+    if (!checkpoint) return [];
+
+    const items: ICheckpointWriteBackItem[] = [];
+    Object.entries(this.previousAwaitingItems).forEach(([itemKey, awaitingItem]) => {
+      if (this.checkpointItems.has(itemKey)) return;
+
+      const { recordId, urlFieldId, attachmentFieldId, url } = awaitingItem;
+      checkpoint.awaitingWriteBack[itemKey] = awaitingItem;
+      this.checkpointItems.set(itemKey, { status: 'awaitingWriteBack', item: { recordId, urlFieldId, attachmentFieldId, url } });
+      items.push(awaitingItem);
+    });
+    return items;
+  }
+
+  /**
+   * 更新检查点中的链接状态
+   * @param recordId 记录ID
+   * @param fieldId 字段ID
+   * @param url 原始URL
+   * @param status 处理状态
+   * @param attachmentId 附件ID (转换成功时)
+   */
+  private updateCheckpointItem(
+    recordId: string,
+    fieldId: string,
+    url: string,
+    status: Exclude<CheckpointItemStatus, 'pending'>,
+    attachmentId?: string
+  ): void {
+    const itemKey = ConversionCheckpointStore.getItemKey(recordId, fieldId, url);
+    const entry = this.checkpointItems.get(itemKey);
+    if (!this.checkpoint || !entry) return;
+
+    entry.status = status;
+    if (status === 'completed') {
+      this.checkpoint.completed[itemKey] = attachmentId ?? '';
+      delete this.checkpoint.awaitingWriteBack[itemKey];
+    } else if (status === 'awaitingWriteBack') {
+      this.checkpoint.awaitingWriteBack[itemKey] = { ...entry.item, attachmentId: attachmentId ?? '' };
+    }
+    this.persistCheckpoint();
+  }
+
+  /**
+   * 持久化检查点
+   * 第一次保存失败（通常是存储空间不足）时通知调用方，转换本身继续进行
+   * @param force 是否忽略写入间隔立即保存
+   */
+  private persistCheckpoint(force: boolean = false): void {
+    if (!this.checkpoint) return;
+
+    const now = Date.now();
+    if (!force && now - this.lastCheckpointSave < CHECKPOINT_SAVE_INTERVAL) {
+      return;
+    }
+
+    const failed: IConversionRetryItem[] = [];
+    const pending: IConversionRetryItem[] = [];
+    this.checkpointItems.forEach(({ status, item }) => {
+      if (status === 'failed') failed.push(item);
+      if (status === 'pending') pending.push(item);
+    });
+    this.checkpoint.failed = failed;
+    this.checkpoint.pending = pending;
+
+    const saved = ConversionCheckpointStore.save(this.checkpoint);
+    this.lastCheckpointSave = now;
+
+    if (!saved && !this.checkpointSaveFailed) {
+      this.checkpointSaveFailed = true;
+      this.config.onCheckpointSaveFailed?.();
+    }
+  }
+
+  /**
+   * 页面隐藏或卸载时立即保存检查点
+   */
+  private handlePageHide = (): void => {
+    this.persistCheckpoint(true);
+  };
+
+  /**
+   * 检查是否有已转换但所在记录尚未回写的链接
+   * @returns 是否有未回写的链接
+   */
+  private hasItemsAwaitingWriteBack(): boolean {
+    return Object.keys(this.checkpoint?.awaitingWriteBack ?? {}).length > 0;
+  }
+
+  /**
+   * 删除本次运行的检查点
+   */
+  private clearCheckpoint(): void {
+    if (this.checkpoint) {
+      ConversionCheckpointStore.remove(this.checkpoint.key);
+    }
+    delete this.checkpoint;
+    this.checkpointItems.clear();
+  }
+
+  /**
+   * 分页扫描表格记录中的URL
+   * 同一单元格中重复出现的URL只生成一个工作项，不符合记录筛选条件的记录不生成工作项
+   * 各URL字段按字段映射写入各自的目标附件字段，一次扫描处理全部映射
+   * @returns 按页产出的工作项
+   */
+  private async *scanPages(): AsyncGenerator<IConversionWorkItem[]> {
+    const { tableId, recordIds } = this.config;
+    const { recordFilter } = this.config.converterConfig;
+    const writeMode = this.getWriteMode();
+    const retryItems = this.retryItems;
+    let index = 0;
 
     try {
       // 获取字段信息
       const fieldsResponse = await openApi.getFields(tableId);
       const fields = fieldsResponse.data;
 
-      // 获取选中的字段信息
-      const selectedFields = fields.filter(field =>
-        this.config.converterConfig.urlFieldIds.includes(field.id)
-      );
-
-      // 分页获取记录
-      let skip = 0;
-      const take = 100;
-
-      while (true) {
-        const recordsResponse = await openApi.getRecords(tableId, {
-          viewId,
-          skip,
-          take
+      // 获取选中字段的映射，忽略已被删除的字段；重试时沿用原始运行的映射
+      const mappings = (retryItems ? getRetryMappings(retryItems) : getFieldMappings(this.config.converterConfig))
+        .flatMap((mapping) => {
+          const field = fields.find(item => item.id === mapping.urlFieldId);
+          return field ? [{ ...mapping, fieldName: field.name }] : [];
         });
 
-        const records = recordsResponse.data.records;
+      // 文件名模板引用的字段，按名称或ID查找
+      const templateFields = FileNameTemplate.getFieldReferences(this.config.converterConfig.fileNameTemplate)
+        .map(reference => ({
+          reference,
+          fieldId: fields.find(field => field.name === reference || field.id === reference)?.id
+        }));
 
-        if (records.length === 0) {
-          break;
-        }
+      const recordPages = retryItems
+        ? this.fetchRecordsById(Array.from(new Set(retryItems.map(item => item.recordId))))
+        : recordIds
+          ? this.fetchRecordsById(recordIds)
+          : this.fetchRecordPages(this.getRecordFilter(mappings));
+
+      for await (const records of recordPages) {
+        const workItems: IConversionWorkItem[] = [];
 
         // 扫描每条记录的URL字段
         for (const record of records) {
-          for (const field of selectedFields) {
-            const cellValue = record.fields[field.id];
-
-            if (cellValue && typeof cellValue === 'string') {
-              // 提取URL
-              const urlMatches = UrlDetector.extractUrls(cellValue);
-
-              for (const match of urlMatches) {
-                urlRecords.push({
-                  recordId: record.id,
-                  fieldId: field.id,
-                  url: match.cleanedUrl,
-                  fieldName: field.name
-                });
-              }
+          // 附件字段ID -> 写入该字段的工作项
+          const targetItems = new Map<string, IConversionWorkItem[]>();
+          // 附件字段ID -> 已编号的链接数，多个URL字段写入同一附件字段时连续编号
+          const targetPositions = new Map<string, number>();
+          const recordTemplateFields = templateFields.length > 0
+            ? Object.fromEntries(templateFields.map(({ reference, fieldId }) => [
+              reference,
+              fieldId ? FileNameTemplate.cellValueToString(record.fields[fieldId]) : ''
+            ]))
+            : undefined;
+
+          for (const mapping of mappings) {
+            const cellValue = record.fields[mapping.urlFieldId];
+            if (!retryItems && (!cellValue || typeof cellValue !== 'string')) continue;
+
+            const attachmentValue = record.fields[mapping.attachmentFieldId];
+            const existingAttachments = Array.isArray(attachmentValue) ? attachmentValue as IAttachmentItem[] : [];
+            const items = targetItems.get(mapping.attachmentFieldId) ?? [];
+
+            // 提取URL；重试时只处理原始运行中失败的链接
+            const cellUrls = typeof cellValue === 'string'
+              ? Array.from(new Set(UrlDetector.extractUrls(cellValue).map(match => match.cleanedUrl)))
+              : [];
+            const urls = retryItems
+              ? new Set(retryItems
+                .filter(item =>
+                  item.recordId === record.id &&
+                  item.urlFieldId === mapping.urlFieldId &&
+                  item.attachmentFieldId === mapping.attachmentFieldId
+                )
+                .map(item => item.url))
+              : new Set(cellUrls);
+
+            // 按链接在单元格中的顺序编号，重试时与原始运行的编号一致
+            const positionOffset = targetPositions.get(mapping.attachmentFieldId) ?? 0;
+            let extraPosition = cellUrls.length;
+            for (const url of urls) {
+              const cellPosition = cellUrls.indexOf(url) + 1;
+              items.push({
+                index: 0,
+                recordId: record.id,
+                fieldId: mapping.urlFieldId,
+                fieldName: mapping.fieldName,
+                attachmentFieldId: mapping.attachmentFieldId,
+                url,
+                position: positionOffset + (cellPosition || ++extraPosition),
+                ...(recordTemplateFields ? { templateFields: recordTemplateFields } : {}),
+                existingAttachments
+              });
             }
+            targetItems.set(mapping.attachmentFieldId, items);
+            targetPositions.set(mapping.attachmentFieldId, positionOffset + extraPosition);
           }
-        }
 
-        skip += take;
+          targetItems.forEach((items) => {
+            const existingCount = items[0]?.existingAttachments.length ?? 0;
+
+            // 附件数量已经不少于链接数量的目标字段视为已转换
+            if (!retryItems && recordFilter === 'fewerAttachmentsThanUrls' && existingCount >= items.length) {
+              return;
+            }
+
+            // 按记录ID读取时没有服务器端筛选，在这里跳过已有附件的目标字段
+            if (!retryItems && recordIds && recordFilter === 'attachmentEmpty' && existingCount > 0) {
+              return;
+            }
+
+            // 跳过已有附件的目标字段
+            if (!retryItems && writeMode === 'skipIfNotEmpty' && existingCount > 0) {
+              return;
+            }
 
-        // 如果返回的记录数少于请求的数量，说明已经到最后一页
-        if (records.length < take) {
-          break;
+            for (const item of items) {
+              item.index = index++;
+              workItems.push(item);
+            }
+          });
         }
+
+        yield workItems;
       }
 
     } catch (error) {
       console.error('Error scanning URLs:', error);
       throw new Error('Failed to scan URLs in table records');
     }
+  }
+
+  /**
+   * 分页读取视图中的记录
+   * 使用筛选条件时，转换过程中写入的附件会让记录不再匹配，按 skip 分页会漏掉记录，
+   * 因此先读取全部匹配的记录再逐页产出；不筛选时边读取边产出
+   * @param filter 记录筛选条件
+   * @returns 按页产出的记录
+   */
+  private async *fetchRecordPages(filter?: IFilterSet): AsyncGenerator<IRecord[]> {
+    const { tableId, viewId } = this.config;
+    const pages: IRecord[][] = [];
+
+    // 分页获取记录
+    let skip = 0;
+    const take = 100;
+
+    while (true) {
+      const recordsResponse = await openApi.getRecords(tableId, {
+        viewId,
+        skip,
+        take,
+        fieldKeyType: FieldKeyType.Id,
+        ...(filter ? { filter } : {})
+      });
+
+      const records = recordsResponse.data.records;
+
+      if (records.length === 0) {
+        break;
+      }
+
+      if (filter) {
+        pages.push(records);
+      } else {
+        yield records;
+      }
+
+      skip += take;
+
+      // 如果返回的记录数少于请求的数量，说明已经到最后一页
+      if (records.length < take) {
+        break;
+      }
+    }
+
+    yield* pages;
+  }
+
+  /**
+   * 按记录ID分批读取记录，找不到的记录会被忽略，全部读取完后通过 onRecordsNotFound 报告
+   * @param recordIds 记录ID
+   * @returns 按批产出的记录
+   */
+  private async *fetchRecordsById(recordIds: string[]): AsyncGenerator<IRecord[]> {
+    const { tableId } = this.config;
+    const missingIds: string[] = [];
+
+    for (let i = 0; i < recordIds.length; i += RECORD_FETCH_BATCH_SIZE) {
+      const batch = recordIds.slice(i, i + RECORD_FETCH_BATCH_SIZE);
+      const responses = await Promise.allSettled(
+        batch.map(recordId => openApi.getRecord(tableId, recordId, { fieldKeyType: FieldKeyType.Id }))
+      );
+
+      missingIds.push(...batch.filter((_, index) => responses[index]?.status === 'rejected'));
+      yield responses.flatMap(response => response.status === 'fulfilled' ? [response.value.data] : []);
+    }
+
+    if (missingIds.length > 0) {
+      this.config.onRecordsNotFound?.(missingIds);
+    }
+  }
 
-    return urlRecords;
+  /**
+   * 本次运行的写入方式
+   * 重试时单元格中已有原始运行成功转换的附件，替换模式按追加处理，避免移除它们
+   * @returns 写入方式
+   */
+  private getWriteMode(): WriteMode {
+    const { writeMode } = this.config.converterConfig;
+    return this.retryItems && writeMode === 'replace' ? 'append' : writeMode;
   }
 
   /**
-   * 下载文件
-   * @param urlRecords URL记录数组
-   * @returns 下载结果数组
+   * 生成记录筛选条件，与视图自身的筛选条件同时生效
+   * @param mappings 字段映射
+   * @returns 筛选条件，处理全部记录时为空
    */
-  private async downloadFiles(
-    urlRecords: Array<{
-      recordId: string;
-      fieldId: string;
-      url: string;
-      fieldName: string;
-    }>
-  ): Promise<IDownloadResult[]> {
-    const urls = urlRecords.map(record => record.url);
+  private getRecordFilter(mappings: IFieldMapping[]): IFilterSet | undefined {
+    const { recordFilter } = this.config.converterConfig;
+    if (recordFilter === 'all' || mappings.length === 0) {
+      return undefined;
+    }
 
-    return await this.downloader!.downloadFiles(urls);
+    if (recordFilter === 'attachmentEmpty') {
+      // 任一映射的URL字段不为空且目标附件字段为空
+      return {
+        conjunction: 'or',
+        filterSet: mappings.map(mapping => ({
+          conjunction: 'and',
+          filterSet: [
+            { fieldId: mapping.urlFieldId, operator: 'isNotEmpty', value: null },
+            { fieldId: mapping.attachmentFieldId, operator: 'isEmpty', value: null }
+          ]
+        }))
+      };
+    }
+
+    // 附件数量与链接数量的比较无法用筛选条件表达，只筛选至少一个URL字段不为空的记录，扫描时再判断
+    return {
+      conjunction: 'or',
+      filterSet: mappings.map(mapping => ({ fieldId: mapping.urlFieldId, operator: 'isNotEmpty', value: null }))
+    };
+  }
+
+  /**
+   * 读取所有目标附件字段的来源映射
+   * @returns 附件字段ID -> 来源映射
+   */
+  private loadAttachmentSources(): Promise<Map<string, AttachmentSourceMap>> {
+    const mappings = this.retryItems ? getRetryMappings(this.retryItems) : getFieldMappings(this.config.converterConfig);
+    const fieldIds = Array.from(new Set(mappings.map(mapping => mapping.attachmentFieldId)));
+    return AttachmentSourceStore.load(this.config.storageLocation ?? {}, this.config.tableId, fieldIds);
   }
 
   /**
-   * 上传附件
-   * @param downloadResults 下载结果数组
-   * @returns 上传结果数组
+   * 记录新建附件的来源，累积到一批后写入插件 storage
+   * @param attachmentFieldId 附件字段ID
+   * @param attachmentId 附件ID
+   * @param url 原始URL
    */
-  private async uploadAttachments(downloadResults: IDownloadResult[]): Promise<IUploadResult[]> {
-    // 只上传成功的下载结果
-    const successfulDownloads = downloadResults.filter(result => result.success);
+  private queueSourceSave(attachmentFieldId: string, attachmentId: string, url: string): void {
+    const fieldUrls = this.pendingSources.get(attachmentFieldId) ?? {};
+    fieldUrls[attachmentId] = url;
+    this.pendingSources.set(attachmentFieldId, fieldUrls);
+    this.pendingSourceCount++;
+
+    void this.flushSources();
+  }
 
-    if (successfulDownloads.length === 0) {
-      return [];
+  /**
+   * 写入等待保存的附件来源
+   * 累积到一批后才写入，避免大批量转换时频繁读写整个 storage；各批依次写入
+   * @param force 是否不足一批也立即写入
+   * @returns 全部已排队的写入完成
+   */
+  private flushSources(force: boolean = false): Promise<void> {
+    if (this.pendingSourceCount > 0 && (force || this.pendingSourceCount >= SOURCE_SAVE_BATCH_SIZE)) {
+      // 先同步取出，避免并发的工作项重复写入
+      const urls = new Map(this.pendingSources);
+      this.pendingSources.clear();
+      this.pendingSourceCount = 0;
+
+      this.sourceSaving = this.sourceSaving.then(async () => {
+        try {
+          await AttachmentSourceStore.save(this.config.storageLocation ?? {}, this.config.tableId, urls);
+        } catch (error) {
+          this.config.onError?.(`Failed to save attachment sources: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      });
     }
 
-    // 获取记录ID和字段ID的映射（这里需要重新扫描以获取对应的记录信息）
-    const urlRecords = await this.scanUrls();
-    
-    // 使用 uploadFromUrl 方法循环上传每个下载结果
-    const uploadPromises = successfulDownloads.map(async (downloadResult) => {
-      const urlRecord = urlRecords.find(record => record.url === downloadResult.url);
-      if (!urlRecord) {
-        throw new Error(`Failed to find record mapping for URL: ${downloadResult.url}`);
+    return this.sourceSaving;
+  }
+
+  /**
+   * 扫描表格记录中的全部URL
+   * @returns 工作项数组
+   */
+  private async scanUrls(): Promise<IConversionWorkItem[]> {
+    const workItems: IConversionWorkItem[] = [];
+    for await (const page of this.scanPages()) {
+      workItems.push(...page);
+    }
+    return workItems;
+  }
+
+  /**
+   * 为流水线逐个产出需要处理的工作项
+   * 每页的记录链接数在产出前统计完毕，保证记录的最后一个链接处理完之前不会被判定为已完成
+   * @param run 运行状态
+   * @returns 需要处理的工作项
+   */
+  private async *scanWorkItems(run: IConversionRunState): AsyncGenerator<IConversionWorkItem> {
+    for await (const page of this.scanPages()) {
+      const replayItems: ICheckpointWriteBackItem[] = [];
+      const pendingItems = page.filter((item) => {
+        const status = this.registerCheckpointItem(item);
+        if (status === 'pending') return true;
+        run.resumedUrls++;
+
+        // 上次运行已转换但记录尚未回写：不再上传，与该记录的其他链接一起重新回写
+        const itemKey = ConversionCheckpointStore.getItemKey(item.recordId, item.fieldId, item.url);
+        const awaitingItem = this.checkpoint?.awaitingWriteBack[itemKey];
+        if (status === 'awaitingWriteBack' && awaitingItem) {
+          replayItems.push(awaitingItem);
+          return false;
+        }
+
+        // 替换模式下保留上次运行已经创建的附件
+        const attachmentId = this.checkpoint?.completed[itemKey];
+        if (this.getWriteMode() === 'replace' && attachmentId) {
+          const attachments = run.resumedAttachments.get(item.recordId) ?? [];
+          attachments.push({ attachmentFieldId: item.attachmentFieldId, attachmentId });
+          run.resumedAttachments.set(item.recordId, attachments);
+        }
+        return false;
+      });
+
+      for (const item of pendingItems) {
+        run.pendingRecordItems.set(item.recordId, (run.pendingRecordItems.get(item.recordId) ?? 0) + 1);
       }
+      run.totalUrls += pendingItems.length;
+      this.updateRunProgress(run);
+
+      await this.replayWriteBacks(run, replayItems);
+
+      yield* pendingItems;
+    }
+
+    // 记录不在本次扫描范围内的未回写链接同样需要重新回写
+    await this.replayWriteBacks(run, this.takeUnscannedWriteBackItems());
+  }
+
+  /**
+   * 重新回写上次运行已转换但尚未回写的链接所在的记录，这些链接不再上传
+   * 记录还有待处理的链接时，等这些链接处理完后一起回写；本次运行不需要回写记录时直接标记为已完成
+   * @param run 运行状态
+   * @param items 未回写的链接
+   */
+  private async replayWriteBacks(run: IConversionRunState, items: ICheckpointWriteBackItem[]): Promise<void> {
+    if (!this.needsWriteBack(run)) {
+      items.forEach(item => this.updateCheckpointItem(item.recordId, item.urlFieldId, item.url, 'completed', item.attachmentId));
+      return;
+    }
+
+    // 先计入全部链接，同一记录的多个链接一起回写
+    for (const item of items) {
+      run.pendingRecordItems.set(item.recordId, (run.pendingRecordItems.get(item.recordId) ?? 0) + 1);
+    }
+    for (const item of items) {
+      await this.completeRecordItem(run, {
+        url: item.url,
+        recordId: item.recordId,
+        fieldId: item.urlFieldId,
+        attachmentFieldId: item.attachmentFieldId,
+        success: true,
+        processingTime: 0,
+        ...(item.attachmentId ? { attachmentId: item.attachmentId } : {})
+      });
+    }
+  }
+
+  /**
+   * 处理单个工作项：按获取方式下载/上传 → 记录结果
+   * 错误会记录在结果中，不会中断其他工作项
+   * @param item 工作项
+   * @param run 运行状态
+   */
+  private async processWorkItem(item: IConversionWorkItem, run: IConversionRunState): Promise<void> {
+    const { fetchStrategy } = this.config.converterConfig;
+
+    this.updateRunProgress(run, item.url);
+
+    // 同一URL已在本次运行中获取过时直接复用结果，否则由本工作项获取并共享给后续的工作项
+    const shareFetch = await this.claimFetch(item, run);
+    if (shareFetch) {
+      try {
+        if (fetchStrategy === 'browser') {
+          await this.convertInBrowser(item, run);
+        } else {
+          await this.convertOnServer(item, run);
 
-      return await this.uploader!.uploadFromUrl(
-        downloadResult.url,
-        downloadResult.fileName || 'download',
+          // 自动模式：服务器无法获取文件（如内网链接）时改为浏览器下载后上传；
+          // 客户端超时后服务器可能仍会完成下载并写入附件，再由浏览器上传会产生重复附件
+          if (
+            fetchStrategy === 'auto' && item.upload && !item.upload.success && !item.upload.timeoutPhase &&
+            !this.abortController?.signal.aborted
+          ) {
+            if (item.upload.error) {
+              item.serverError = item.upload.error;
+            }
+            delete item.upload;
+            await this.convertInBrowser(item, run);
+          }
+        }
+      } finally {
+        shareFetch(this.getSharedFetch(item));
+      }
+    }
+
+    // 取消后中断的链接在检查点中保持待处理状态
+    if (this.abortController?.signal.aborted && !item.upload?.success) {
+      return;
+    }
+
+    const result = this.toConversionResult(item);
+
+    // 记录附件来源，再次运行时也能识别已转换的链接
+    if (item.upload?.success && item.upload.attachmentId) {
+      this.queueSourceSave(item.attachmentFieldId, item.upload.attachmentId, item.url);
+    }
+
+    // 需要回写记录时，回写成功后才算完成
+    if (result.success) {
+      const status = this.needsWriteBack(run) ? 'awaitingWriteBack' : 'completed';
+      this.updateCheckpointItem(item.recordId, item.fieldId, item.url, status, result.attachmentId);
+    } else {
+      this.updateCheckpointItem(item.recordId, item.fieldId, item.url, 'failed');
+    }
+
+    run.results.set(item.index, result);
+    run.processedUrls++;
+    if (!result.success) {
+      run.failedConversions++;
+    } else if (!result.skipped) {
+      run.successfulConversions++;
+    }
+    this.updateRunProgress(run);
+
+    await this.completeRecordItem(run, result);
+  }
+
+  /**
+   * 获取同一URL的处理权：没有其他工作项在获取时同步登记，由本工作项获取
+   * 同一URL正在获取时等待其完成，成功时复用已上传的文件，链接本身无法转换时直接沿用失败结果；
+   * 获取失败但可以重试时，等待中的工作项依次重新获取，同一时间只有一个工作项请求该URL
+   * @param item 工作项
+   * @param run 运行状态
+   * @returns 由本工作项获取时返回共享结果的函数，已由复用处理（包括等待期间被取消）时为 null
+   */
+  private async claimFetch(
+    item: IConversionWorkItem,
+    run: IConversionRunState
+  ): Promise<((shared: IUploadedFile | IFailedFetch | null) => void) | null> {
+    let pending = run.uploadedFiles.get(item.url);
+    while (pending) {
+      const shared = await pending;
+      // 等待期间被取消时保持待处理状态
+      if (this.abortController?.signal.aborted) {
+        return null;
+      }
+      if (shared) {
+        await this.applySharedFetch(item, run, shared);
+        return null;
+      }
+
+      // 上一次获取失败：第一个醒来的工作项重新获取，其余的继续等待它的结果
+      const next = run.uploadedFiles.get(item.url);
+      if (next === pending) break;
+      pending = next;
+    }
+
+    // 登记与检查之间不能有 await，否则同一URL的工作项会同时开始获取
+    let share: (shared: IUploadedFile | IFailedFetch | null) => void = () => undefined;
+    run.uploadedFiles.set(item.url, new Promise((resolve) => {
+      share = resolve;
+    }));
+    return share;
+  }
+
+  /**
+   * 获取本工作项需要共享给同一URL其他工作项的结果
+   * @param item 已处理的工作项
+   * @returns 上传的文件或链接本身无法转换的结果，其他工作项需要自行获取时为 null
+   */
+  private getSharedFetch(item: IConversionWorkItem): IUploadedFile | IFailedFetch | null {
+    const attachment = item.upload?.success ? item.upload.attachment : undefined;
+    if (attachment) {
+      return { attachment, originalName: item.originalFileName ?? attachment.name };
+    }
+
+    // 上传失败可能只与该记录有关（如记录已删除），只共享预检和下载阶段的失败
+    const { inspection, download, serverError } = item;
+    const inspectionFailed = inspection && !inspection.allowed;
+    const downloadFailed = download && !download.success && download.errorKind && PERMANENT_ERROR_KINDS.includes(download.errorKind);
+    if (!inspectionFailed && !downloadFailed) {
+      return null;
+    }
+
+    const failure: IFailedFetch['failure'] = {};
+    if (inspection) failure.inspection = inspection;
+    if (download) failure.download = download;
+    if (serverError) failure.serverError = serverError;
+    return { failure };
+  }
+
+  /**
+   * 使用同一URL其他工作项的获取结果：沿用失败结果，或复用已上传的文件
+   * @param item 工作项
+   * @param run 运行状态
+   * @param shared 获取结果
+   */
+  private async applySharedFetch(
+    item: IConversionWorkItem,
+    run: IConversionRunState,
+    shared: IUploadedFile | IFailedFetch
+  ): Promise<void> {
+    if ('failure' in shared) {
+      Object.assign(item, shared.failure);
+      return;
+    }
+
+    const { attachment, originalName } = shared;
+    const fileName = this.getFileName(item, originalName);
+    if (this.matchConvertedAttachment(item, run, fileName, attachment.size)) {
+      return;
+    }
+
+    item.upload = await this.withAttachmentCellLock(item, () => this.uploader!.attachExisting(
+      attachment,
+      item.url,
+      this.config.tableId,
+      item.recordId,
+      item.attachmentFieldId,
+      fileName
+    ));
+  }
+
+  /**
+   * 由 Teable 服务器获取文件
+   * 浏览器只做预检，文件内容不经过浏览器
+   * @param item 工作项
+   * @param run 运行状态
+   */
+  private async convertOnServer(item: IConversionWorkItem, run: IConversionRunState): Promise<void> {
+    // 预检和服务器下载访问的是同一个主机，共用一个主机名额，避免预检完成后再排队等待上传
+    try {
+      await this.scheduleOnHost(item.url, async () => {
+        const inspection = await this.downloader!.inspectFile(item.url, false);
+        inspection.fileName = this.getFileName(item, inspection.fileName);
+        item.inspection = inspection;
+
+        if (!inspection.allowed || this.matchConvertedAttachment(item, run, inspection.fileName, inspection.fileSize)) {
+          return;
+        }
+
+        item.upload = await this.withAttachmentCellLock(item, async () => {
+          const upload = await this.uploader!.uploadFromUrl(
+            item.url,
+            inspection.fileName,
+            this.config.tableId,
+            item.recordId,
+            item.attachmentFieldId
+          );
+
+          if (!upload.success || !upload.attachment) {
+            return upload;
+          }
+
+          // 浏览器预检可能因跨域无法读取文件内容，再按服务器保存的MIME类型核实：
+          // 服务器保存的是网页时移除该附件，按网页处理（自动模式会改为浏览器下载）
+          if (FileTypeSniffer.isHtmlMimeType(upload.attachment.mimetype) && !FileTypeSniffer.isHtmlFileName(inspection.fileName)) {
+            await this.removeUploadedAttachment(item, upload.attachment.id);
+            delete upload.attachment;
+            delete upload.attachmentId;
+            upload.success = false;
+            upload.error = INSPECTION_ERRORS.webPage;
+            return upload;
+          }
+          inspection.fileName = FileTypeSniffer.correctExtension(
+            inspection.fileName,
+            FileTypeSniffer.fromMimeType(upload.attachment.mimetype)
+          );
+          upload.fileName = inspection.fileName;
+
+          // 服务器按自己的规则命名附件，与解析出的文件名（响应头、最终地址、模板或更正后的扩展名）不同时上传后再重命名
+          if (upload.attachment.name !== inspection.fileName) {
+            try {
+              await this.uploader!.renameAttachment(
+                this.config.tableId,
+                item.recordId,
+                item.attachmentFieldId,
+                upload.attachment.id,
+                inspection.fileName
+              );
+              upload.attachment = { ...upload.attachment, name: inspection.fileName };
+            } catch (error) {
+              console.error('Failed to rename attachment:', error);
+              this.config.onError?.(`Failed to rename attachment: ${error instanceof Error ? error.message : 'Unknown error'}`);
+              upload.fileName = upload.attachment.name;
+            }
+          }
+          return upload;
+        });
+      });
+    } catch (error) {
+      // 排队期间被取消时保持待处理状态
+      if (!this.abortController?.signal.aborted) throw error;
+    }
+  }
+
+  /**
+   * 按URL所在主机的限制执行任务，运行取消时排队中的任务直接拒绝
+   * @param url 请求的URL
+   * @param task 任务
+   * @returns 任务结果
+   */
+  private scheduleOnHost<T>(url: string, task: () => Promise<T>): Promise<T> {
+    return this.scheduler ? this.scheduler.schedule(url, task, this.abortController?.signal) : task();
+  }
+
+  /**
+   * 移除刚上传的附件，移除失败只报告错误
+   * @param item 工作项
+   * @param attachmentId 附件ID
+   */
+  private async removeUploadedAttachment(item: IConversionWorkItem, attachmentId: string): Promise<void> {
+    const { failedRecordIds } = await AttachmentRemover.remove(this.config.tableId, [{
+      recordId: item.recordId,
+      attachmentFieldId: item.attachmentFieldId,
+      attachmentId
+    }]);
+
+    if (failedRecordIds.length > 0) {
+      this.config.onError?.(`Failed to remove web page attachment for ${item.url}`);
+    }
+  }
+
+  /**
+   * 由浏览器下载文件后上传文件内容
+   * 适用于浏览器可以访问而 Teable 服务器无法访问的链接
+   * @param item 工作项
+   * @param run 运行状态
+   */
+  private async convertInBrowser(item: IConversionWorkItem, run: IConversionRunState): Promise<void> {
+    const download = await this.downloader!.downloadFile(item.url);
+    item.download = download;
+
+    if (!download.success || !download.data || this.abortController?.signal.aborted) {
+      delete download.data;
+      return;
+    }
+
+    // 上传时直接使用模板生成的文件名
+    download.fileName = this.getFileName(item, download.fileName || UrlDetector.generateSafeFileName(item.url));
+
+    if (!this.matchConvertedAttachment(item, run, download.fileName, download.fileSize)) {
+      item.upload = await this.withAttachmentCellLock(item, () => this.uploader!.uploadFromDownloadResult(
+        download,
         this.config.tableId,
-        urlRecord.recordId,
-        this.config.converterConfig.attachmentFieldId
-      );
+        item.recordId,
+        item.attachmentFieldId
+      ));
+    }
+
+    // 释放文件内容，结果中只保留元数据
+    delete download.data;
+  }
+
+  /**
+   * 按文件名模板生成工作项的附件文件名
+   * @param item 工作项
+   * @param originalName 服务器或URL提供的文件名
+   * @returns 文件名，未配置模板时为原文件名
+   */
+  private getFileName(item: IConversionWorkItem, originalName: string): string {
+    const { fileNameTemplate } = this.config.converterConfig;
+    if (!fileNameTemplate.trim()) {
+      return originalName;
+    }
+
+    item.originalFileName = originalName;
+    return FileNameTemplate.render(fileNameTemplate.trim(), {
+      fields: item.templateFields ?? {},
+      recordId: item.recordId,
+      index: item.position,
+      url: item.url,
+      originalName
     });
+  }
+
+  /**
+   * 串行执行同一记录同一附件字段的上传
+   * uploadAttachment 返回整个单元格的附件列表，附件ID取自最后一个附件，
+   * 同一单元格并发上传时最后一个附件可能属于另一次上传
+   * @param item 工作项
+   * @param task 上传任务
+   * @returns 上传结果
+   */
+  private async withAttachmentCellLock<T>(item: IConversionWorkItem, task: () => Promise<T>): Promise<T> {
+    const key = `${item.recordId}|${item.attachmentFieldId}`;
+    const previous = this.attachmentCellLocks.get(key) ?? Promise.resolve();
+    const current = previous.then(task);
+    const settled = current.then(() => undefined, () => undefined);
+    this.attachmentCellLocks.set(key, settled);
 
-    return await Promise.all(uploadPromises);
+    try {
+      return await current;
+    } finally {
+      if (this.attachmentCellLocks.get(key) === settled) {
+        this.attachmentCellLocks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * 查找工作项在目标附件字段中已存在的附件，避免重复附件
+   * @param item 工作项
+   * @param run 运行状态
+   * @param fileName 本地生成的文件名
+   * @param fileSize 文件大小 (字节)
+   * @returns 是否已经转换过
+   */
+  private matchConvertedAttachment(
+    item: IConversionWorkItem,
+    run: IConversionRunState,
+    fileName?: string,
+    fileSize?: number
+  ): boolean {
+    const existingAttachment = AttachmentSourceStore.findConvertedAttachment(
+      item.existingAttachments,
+      run.sources.get(item.attachmentFieldId) ?? {},
+      item.url,
+      this.getCandidateFileNames(item.url, fileName),
+      fileSize
+    );
+
+    if (existingAttachment) {
+      item.convertedAttachment = existingAttachment;
+    }
+    return Boolean(existingAttachment);
   }
 
   /**
-   * 生成最终转换结果
-   * @param urlRecords URL记录
-   * @param downloadResults 下载结果
-   * @param uploadResults 上传结果
-   * @returns 最终结果数组
+   * 记录一个链接的处理结果，记录的全部链接处理完后加入回写队列
+   * @param run 运行状态
+   * @param result 转换结果
    */
-  private generateFinalResults(
-    urlRecords: Array<{ recordId: string; fieldId: string; url: string; fieldName: string }>,
-    downloadResults: IDownloadResult[],
-    uploadResults: IUploadResult[]
-  ): IConversionResult[] {
-    const results: IConversionResult[] = [];
+  private async completeRecordItem(run: IConversionRunState, result: IConversionResult): Promise<void> {
+    if (!this.needsWriteBack(run)) {
+      return;
+    }
 
-    for (let i = 0; i < urlRecords.length; i++) {
-      const urlRecord = urlRecords[i];
-      const downloadResult = downloadResults[i];
-      const uploadResult = uploadResults[i];
+    const recordResults = run.recordResults.get(result.recordId) ?? [];
+    recordResults.push(result);
 
-      if (!urlRecord) {
-        continue; // Skip if urlRecord is undefined
+    const remaining = (run.pendingRecordItems.get(result.recordId) ?? 1) - 1;
+    if (remaining > 0) {
+      run.recordResults.set(result.recordId, recordResults);
+      run.pendingRecordItems.set(result.recordId, remaining);
+      return;
+    }
+
+    run.recordResults.delete(result.recordId);
+    run.pendingRecordItems.delete(result.recordId);
+    run.writeBackQueue.push(recordResults);
+
+    await this.flushWriteBacks(run);
+  }
+
+  /**
+   * 本次运行是否需要在记录的链接全部处理完后回写记录（替换模式、移动模式、状态字段）
+   * @param run 运行状态
+   * @returns 是否需要回写
+   */
+  private needsWriteBack(run: IConversionRunState): boolean {
+    return this.config.converterConfig.removeConvertedLinks ||
+      this.getWriteMode() === 'replace' ||
+      run.statusIncludesErrors !== undefined;
+  }
+
+  /**
+   * 回写已完成的记录（替换模式、移动模式、状态字段）
+   * 累积到一批后才回写，以减少记录更新请求；回写成功的记录中转换成功的链接在检查点中标记为已完成
+   * @param run 运行状态
+   * @param force 是否不足一批也立即回写
+   */
+  private async flushWriteBacks(run: IConversionRunState, force: boolean = false): Promise<void> {
+    if (run.writeBackQueue.length === 0 || (!force && run.writeBackQueue.length < STATUS_UPDATE_BATCH_SIZE)) {
+      return;
+    }
+
+    // 先同步取出队列，避免并发的工作项重复回写
+    const results = run.writeBackQueue.splice(0).flat();
+    const failedRecordIds = new Set<string>();
+
+    // 替换模式：目标附件字段只保留本次转换得到的附件
+    if (this.getWriteMode() === 'replace') {
+      (await this.replaceAttachments(results, run)).forEach(recordId => failedRecordIds.add(recordId));
+    }
+
+    // 移动模式：从源文本字段中移除已转换的链接
+    if (this.config.converterConfig.removeConvertedLinks) {
+      (await this.removeConvertedLinks(results)).forEach(recordId => failedRecordIds.add(recordId));
+    }
+
+    // 将每条记录的转换状态写回状态字段
+    if (this.config.converterConfig.statusFieldId && run.statusIncludesErrors !== undefined) {
+      (await this.writeRecordStatuses(results, this.config.converterConfig.statusFieldId, run.statusIncludesErrors))
+        .forEach(recordId => failedRecordIds.add(recordId));
+    }
+
+    // 回写失败的记录保持未回写状态，续传时重新回写
+    for (const result of results) {
+      if (result.success && !failedRecordIds.has(result.recordId)) {
+        this.updateCheckpointItem(result.recordId, result.fieldId, result.url, 'completed', result.attachmentId);
       }
+    }
+  }
 
-      const result: IConversionResult = {
-        url: urlRecord.url,
-        recordId: urlRecord.recordId,
-        fieldId: urlRecord.fieldId,
-        success: (downloadResult?.success ?? false) && (uploadResult?.success ?? false),
-        processingTime: (downloadResult?.duration || 0) + (uploadResult?.duration || 0)
-      };
+  /**
+   * 上报流水线进度
+   * @param run 运行状态
+   * @param currentFile 当前处理的文件
+   */
+  private updateRunProgress(run: IConversionRunState, currentFile?: string): void {
+    this.updateProgress({
+      stage: 'converting',
+      totalUrls: run.totalUrls,
+      processedUrls: run.processedUrls,
+      successfulConversions: run.successfulConversions,
+      failedConversions: run.failedConversions,
+      ...(currentFile ? { currentFile } : {})
+    });
+  }
+
+  /**
+   * 用本次转换得到的附件替换目标附件字段中的原有附件（替换模式）
+   * 写入前重新读取单元格；某个附件字段没有任何链接转换成功时保留原有附件，避免清空
+   * 替换失败只会报告错误，不会影响已完成的转换结果
+   * @param results 转换结果
+   * @param run 运行状态
+   * @returns 替换失败的记录ID
+   */
+  private async replaceAttachments(results: IConversionResult[], run: IConversionRunState): Promise<string[]> {
+    const { tableId } = this.config;
+    const failedRecordIds: string[] = [];
+
+    // recordId -> 附件字段ID -> 要保留的附件ID
+    const keepAttachments = new Map<string, Map<string, Set<string>>>();
+    const keep = (recordId: string, attachmentFieldId: string, attachmentId: string) => {
+      const fieldAttachments = keepAttachments.get(recordId) ?? new Map<string, Set<string>>();
+      const attachmentIds = fieldAttachments.get(attachmentFieldId) ?? new Set<string>();
+      attachmentIds.add(attachmentId);
+      fieldAttachments.set(attachmentFieldId, attachmentIds);
+      keepAttachments.set(recordId, fieldAttachments);
+    };
+
+    for (const result of results) {
+      if (result.success && result.attachmentId) {
+        keep(result.recordId, result.attachmentFieldId, result.attachmentId);
+      }
+    }
+
+    for (const recordId of new Set(results.map(result => result.recordId))) {
+      run.resumedAttachments.get(recordId)?.forEach(({ attachmentFieldId, attachmentId }) => {
+        keep(recordId, attachmentFieldId, attachmentId);
+      });
+      run.resumedAttachments.delete(recordId);
+    }
+
+    const recordIds = Array.from(keepAttachments.keys());
+
+    for (let i = 0; i < recordIds.length; i += LINK_REMOVAL_BATCH_SIZE) {
+      const batch = recordIds.slice(i, i + LINK_REMOVAL_BATCH_SIZE);
+
+      try {
+        const updates = await Promise.all(batch.map(async (recordId) => {
+          const fieldAttachments = keepAttachments.get(recordId)!;
+          const { data: record } = await openApi.getRecord(tableId, recordId, {
+            fieldKeyType: FieldKeyType.Id,
+            projection: Array.from(fieldAttachments.keys())
+          });
+
+          const fields: Record<string, IAttachmentItem[]> = {};
+          fieldAttachments.forEach((attachmentIds, attachmentFieldId) => {
+            const value = record.fields[attachmentFieldId];
+            const attachments = Array.isArray(value) ? value as IAttachmentItem[] : [];
+            const keptAttachments = attachments.filter(attachment => attachmentIds.has(attachment.id));
+
+            if (keptAttachments.length < attachments.length) {
+              fields[attachmentFieldId] = keptAttachments;
+            }
+          });
+
+          return { id: recordId, fields };
+        }));
+
+        const records = updates.filter(update => Object.keys(update.fields).length > 0);
+        if (records.length > 0) {
+          await openApi.updateRecords(tableId, { fieldKeyType: FieldKeyType.Id, records });
+        }
+      } catch (error) {
+        console.error('Failed to replace attachments:', error);
+        this.config.onError?.(`Failed to replace attachments: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        failedRecordIds.push(...batch);
+      }
+    }
+
+    return failedRecordIds;
+  }
+
+  /**
+   * 从源文本字段中移除已成功转换的链接（移动模式）
+   * 写入前重新读取单元格，避免覆盖转换期间对该单元格的编辑；转换失败的链接保持不变
+   * 回写失败只会报告错误，不会影响已完成的转换结果
+   * @param results 转换结果
+   * @returns 回写失败的记录ID
+   */
+  private async removeConvertedLinks(results: IConversionResult[]): Promise<string[]> {
+    const { tableId } = this.config;
+    const failedRecordIds: string[] = [];
 
-      // Add optional properties only if they exist
-      const errorMsg = downloadResult?.error || uploadResult?.error;
-      if (errorMsg) {
-        result.errorMessage = errorMsg;
+    // recordId -> fieldId -> 要移除的URL
+    const removals = new Map<string, Map<string, Set<string>>>();
+    for (const result of results) {
+      if (!result.success) continue;
+
+      let fieldUrls = removals.get(result.recordId);
+      if (!fieldUrls) {
+        fieldUrls = new Map();
+        removals.set(result.recordId, fieldUrls);
       }
-      if (uploadResult?.attachmentId) {
-        result.attachmentId = uploadResult.attachmentId;
+
+      let urls = fieldUrls.get(result.fieldId);
+      if (!urls) {
+        urls = new Set();
+        fieldUrls.set(result.fieldId, urls);
       }
-      if (downloadResult?.fileName) {
-        result.fileName = downloadResult.fileName;
+      urls.add(result.url);
+    }
+
+    const recordIds = Array.from(removals.keys());
+
+    for (let i = 0; i < recordIds.length; i += LINK_REMOVAL_BATCH_SIZE) {
+      const batch = recordIds.slice(i, i + LINK_REMOVAL_BATCH_SIZE);
+
+      try {
+        const updates = await Promise.all(batch.map(async (recordId) => {
+          const fieldUrls = removals.get(recordId)!;
+          const { data: record } = await openApi.getRecord(tableId, recordId, {
+            fieldKeyType: FieldKeyType.Id,
+            projection: Array.from(fieldUrls.keys())
+          });
+
+          const fields: Record<string, string | null> = {};
+          fieldUrls.forEach((urls, fieldId) => {
+            const text = record.fields[fieldId];
+            if (typeof text !== 'string') return;
+
+            const updatedText = UrlDetector.removeUrls(text, urls);
+            if (updatedText !== text) {
+              fields[fieldId] = updatedText || null;
+            }
+          });
+
+          return { id: recordId, fields };
+        }));
+
+        const records = updates.filter(update => Object.keys(update.fields).length > 0);
+        if (records.length > 0) {
+          await openApi.updateRecords(tableId, { fieldKeyType: FieldKeyType.Id, records });
+        }
+      } catch (error) {
+        console.error('Failed to remove converted links:', error);
+        this.config.onError?.(`Failed to remove converted links: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        failedRecordIds.push(...batch);
       }
-      if (downloadResult?.fileSize !== undefined) {
-        result.fileSize = downloadResult.fileSize;
+    }
+
+    return failedRecordIds;
+  }
+
+  /**
+   * 读取状态字段的写入方式
+   * 单选字段只写入状态值，文本字段附带错误信息
+   * @param statusFieldId 状态字段ID
+   * @returns 是否附带错误信息；读取字段失败或字段不可写入时返回undefined，本次运行不写入状态
+   */
+  private async getStatusIncludesErrors(statusFieldId: string): Promise<boolean | undefined> {
+    try {
+      const { data: statusField } = await openApi.getField(this.config.tableId, statusFieldId);
+
+      // 计算字段、查找字段和作为链接来源的字段不能写入状态
+      const urlFieldIds = this.retryItems
+        ? getRetryMappings(this.retryItems).map(mapping => mapping.urlFieldId)
+        : this.config.converterConfig.urlFieldIds;
+      if (
+        !STATUS_FIELD_TYPES.includes(statusField.type) ||
+        statusField.isComputed ||
+        statusField.isLookup ||
+        urlFieldIds.includes(statusField.id)
+      ) {
+        throw new Error(`"${statusField.name}" is not a writable single select or text field`);
+      }
+
+      return statusField.type !== FieldType.SingleSelect;
+    } catch (error) {
+      console.error('Failed to load status field:', error);
+      this.config.onError?.(`Failed to write conversion status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 将每条记录的转换状态批量写回状态字段
+   * 单选字段只写入状态值（typecast 会自动创建缺少的选项），文本字段附带错误信息
+   * 写入失败只会报告错误，不会影响已完成的转换结果
+   * @param results 转换结果
+   * @param statusFieldId 状态字段ID
+   * @param includeErrors 是否附带错误信息
+   * @returns 写入失败的记录ID
+   */
+  private async writeRecordStatuses(results: IConversionResult[], statusFieldId: string, includeErrors: boolean): Promise<string[]> {
+    const { tableId } = this.config;
+
+    const recordResults = new Map<string, IConversionResult[]>();
+    for (const result of results) {
+      const items = recordResults.get(result.recordId) ?? [];
+      items.push(result);
+      recordResults.set(result.recordId, items);
+    }
+
+    const records = Array.from(recordResults, ([recordId, items]) => ({
+      id: recordId,
+      fields: { [statusFieldId]: this.formatRecordStatus(items, includeErrors) }
+    }));
+    const failedRecordIds: string[] = [];
+
+    for (let i = 0; i < records.length; i += STATUS_UPDATE_BATCH_SIZE) {
+      const batch = records.slice(i, i + STATUS_UPDATE_BATCH_SIZE);
+      try {
+        await openApi.updateRecords(tableId, {
+          fieldKeyType: FieldKeyType.Id,
+          typecast: true,
+          records: batch
+        });
+      } catch (error) {
+        console.error('Failed to write conversion status:', error);
+        this.config.onError?.(`Failed to write conversion status: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        failedRecordIds.push(...batch.map(record => record.id));
       }
+    }
+
+    return failedRecordIds;
+  }
+
+  /**
+   * 生成记录的状态文本
+   * @param items 该记录的转换结果
+   * @param includeErrors 是否附带错误信息
+   * @returns 状态文本，如 "partial: HTTP 404: Not Found"
+   */
+  private formatRecordStatus(items: IConversionResult[], includeErrors: boolean): string {
+    const successCount = items.filter(item => item.success).length;
+    const status: RecordConversionStatus = successCount === items.length ? 'converted' :
+                                           successCount === 0 ? 'failed' : 'partial';
 
-      results.push(result);
+    const errors = Array.from(new Set(
+      items.filter(item => !item.success).map(item => item.errorMessage || 'Unknown error')
+    ));
+
+    return includeErrors && errors.length > 0 ? `${status}: ${errors.join('; ')}` : status;
+  }
+
+  /**
+   * 获取附件可能使用的文件名
+   * @param url 原始URL
+   * @param fileName 本地生成的文件名
+   * @returns 候选文件名
+   */
+  private getCandidateFileNames(url: string, fileName?: string): string[] {
+    const candidates = [AttachmentSourceStore.getUrlFileName(url), fileName];
+    return candidates.filter((name): name is string => Boolean(name));
+  }
+
+  /**
+   * 生成工作项的转换结果
+   * @param item 已处理的工作项
+   * @returns 转换结果
+   */
+  private toConversionResult(item: IConversionWorkItem): IConversionResult {
+    const { inspection, download, upload, convertedAttachment } = item;
+
+    // 已经存在于附件字段中的链接
+    if (convertedAttachment) {
+      return {
+        url: item.url,
+        recordId: item.recordId,
+        fieldId: item.fieldId,
+        attachmentFieldId: item.attachmentFieldId,
+        success: true,
+        skipped: true,
+        skipReason: 'alreadyConverted',
+        attachmentId: convertedAttachment.id,
+        fileName: convertedAttachment.name,
+        fileSize: convertedAttachment.size,
+        processingTime: download?.duration || 0
+      };
     }
 
-    return results;
+    const result: IConversionResult = {
+      url: item.url,
+      recordId: item.recordId,
+      fieldId: item.fieldId,
+      attachmentFieldId: item.attachmentFieldId,
+      success: upload?.success ?? false,
+      processingTime: (download?.duration || 0) + (upload?.duration || 0)
+    };
+
+    // Add optional properties only if they exist
+    const inspectionError = inspection?.reason ? INSPECTION_ERRORS[inspection.reason] : undefined;
+    const errorMsg = download?.error || upload?.error || inspectionError;
+    if (inspection?.reason && !result.success) {
+      result.skipReason = inspection.reason;
+    }
+    if (errorMsg) {
+      result.errorMessage = item.serverError ?
+        `Server fetch failed: ${item.serverError}; browser fetch failed: ${errorMsg}` :
+        errorMsg;
+    }
+    if (upload?.attachmentId) {
+      result.attachmentId = upload.attachmentId;
+    }
+    const fileName = download?.fileName || upload?.fileName || inspection?.fileName;
+    if (fileName) {
+      result.fileName = fileName;
+    }
+    const fileSize = download?.fileSize ?? upload?.fileSize ?? inspection?.fileSize;
+    if (fileSize !== undefined) {
+      result.fileSize = fileSize;
+    }
+
+    return result;
   }
 
   /**
    * 初始化下载器和上传器
    */
   private initializeServices(): void {
+    // 浏览器下载和服务器获取共用同一个调度器，同一主机的请求合并计算限制
+    this.scheduler = new HostScheduler(this.config.converterConfig.hostLimits);
+
     // 初始化下载器
     const downloaderConfig: IPartialDownloadConfig = {
       maxConcurrency: this.config.converterConfig.concurrencyLimit,
       maxFileSize: this.config.converterConfig.maxFileSize * 1024 * 1024,
       allowedFileTypes: this.config.converterConfig.allowedFileTypes,
       allowAllFileTypes: this.config.converterConfig.allowAllFileTypes,
-      timeout: 30000,
+      timeout: 300000, // 大文件下载最多5分钟
+      stallTimeout: 30000, // 30秒没有收到数据视为连接卡住
       retryCount: 3,
-      retryDelay: 1000
+      retryDelay: 1000,
+      scheduler: this.scheduler
     };
 
     if (this.config.onDownloadProgress) {
@@ -396,7 +1937,8 @@ export class LinkConversionService {
 
     // 初始化上传器
     const uploaderConfig: IPartialUploadConfig = {
-      timeout: 60000, // 60秒超时
+      timeout: 300000, // 包括服务器下载源链接的时间
+      stallTimeout: 30000,
       maxConcurrency: 2, // 上传并发数通常较小
       preserveOriginalLink: this.config.converterConfig.preserveOriginalLink,
       retryCount: 3,
@@ -425,7 +1967,15 @@ export class LinkConversionService {
     // 删除服务引用，让垃圾回收处理
     delete (this as any).downloader;
     delete (this as any).uploader;
+    this.scheduler?.clear();
+    delete this.scheduler;
     delete (this as any).abortController;
+    delete this.checkpoint;
+    this.checkpointItems.clear();
+    this.previousCompletedItems = {};
+    this.previousAwaitingItems = {};
+    this.attachmentCellLocks.clear();
+    this.retryItems = undefined;
   }
 
   /**
@@ -435,4 +1985,4 @@ export class LinkConversionService {
   isConversionInProgress(): boolean {
     return this.isConverting;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,131 @@
+/**
+ * 附件移除工具
+ * 按附件ID从记录中移除指定的附件，用于撤销一次运行；附件字段中的其他附件保持不变
+ */
+
+import * as openApi from '@teable/openapi';
+import { FieldKeyType, HttpError } from '@teable/core';
+import type { IAttachmentItem } from '@teable/core';
+
+/**
+ * 一次运行创建的附件
+ */
+export interface ICreatedAttachment {
+  /** 记录ID */
+  recordId: string;
+  /** 附件字段ID */
+  attachmentFieldId: string;
+  /** 附件ID */
+  attachmentId: string;
+}
+
+/**
+ * 移除结果
+ */
+export interface IAttachmentRemovalResult {
+  /** 已移除的附件数 */
+  removed: number;
+  /** 已经不存在的附件数（已被删除或记录已被删除） */
+  notFound: number;
+  /** 更新失败的记录ID */
+  failedRecordIds: string[];
+}
+
+/**
+ * 附件移除类
+ */
+export class AttachmentRemover {
+  // 每批读取并更新的记录数
+  private static readonly BATCH_SIZE = 20;
+
+  /**
+   * 从记录中移除指定的附件
+   * 写入前重新读取附件字段，只过滤掉指定ID的附件，转换之后添加的附件不受影响
+   * @param tableId 表格ID
+   * @param attachments 要移除的附件
+   * @param onProgress 进度回调 (已处理记录数, 总记录数)
+   * @returns 移除结果
+   */
+  static async remove(
+    tableId: string,
+    attachments: ICreatedAttachment[],
+    onProgress?: (processed: number, total: number) => void
+  ): Promise<IAttachmentRemovalResult> {
+    // recordId -> 附件字段ID -> 要移除的附件ID
+    const targets = new Map<string, Map<string, Set<string>>>();
+    for (const { recordId, attachmentFieldId, attachmentId } of attachments) {
+      const fieldAttachments = targets.get(recordId) ?? new Map<string, Set<string>>();
+      const attachmentIds = fieldAttachments.get(attachmentFieldId) ?? new Set<string>();
+      attachmentIds.add(attachmentId);
+      fieldAttachments.set(attachmentFieldId, attachmentIds);
+      targets.set(recordId, fieldAttachments);
+    }
+
+    const result: IAttachmentRemovalResult = { removed: 0, notFound: 0, failedRecordIds: [] };
+    const recordIds = Array.from(targets.keys());
+
+    for (let i = 0; i < recordIds.length; i += this.BATCH_SIZE) {
+      const batch = recordIds.slice(i, i + this.BATCH_SIZE);
+
+      const responses = await Promise.allSettled(batch.map(recordId =>
+        openApi.getRecord(tableId, recordId, {
+          fieldKeyType: FieldKeyType.Id,
+          projection: Array.from(targets.get(recordId)!.keys())
+        })
+      ));
+
+      const records: { id: string; fields: Record<string, IAttachmentItem[]> }[] = [];
+      let batchRemoved = 0;
+
+      responses.forEach((response, index) => {
+        const recordId = batch[index]!;
+        const fieldAttachments = targets.get(recordId)!;
+        const targetCount = Array.from(fieldAttachments.values()).reduce((sum, ids) => sum + ids.size, 0);
+
+        if (response.status === 'rejected') {
+          // 只有 404 说明记录已被删除，附件也随之不存在；其他错误按失败处理，允许再次撤销
+          if (response.reason instanceof HttpError && response.reason.status === 404) {
+            result.notFound += targetCount;
+          } else {
+            console.error(`Failed to read record ${recordId}:`, response.reason);
+            result.failedRecordIds.push(recordId);
+          }
+          return;
+        }
+
+        const fields: Record<string, IAttachmentItem[]> = {};
+        let recordRemoved = 0;
+        fieldAttachments.forEach((attachmentIds, attachmentFieldId) => {
+          const value = response.value.data.fields[attachmentFieldId];
+          const current = Array.isArray(value) ? value as IAttachmentItem[] : [];
+          const kept = current.filter(attachment => !attachmentIds.has(attachment.id));
+
+          if (kept.length < current.length) {
+            fields[attachmentFieldId] = kept;
+            recordRemoved += current.length - kept.length;
+          }
+        });
+
+        result.notFound += targetCount - recordRemoved;
+        if (recordRemoved > 0) {
+          records.push({ id: recordId, fields });
+          batchRemoved += recordRemoved;
+        }
+      });
+
+      if (records.length > 0) {
+        try {
+          await openApi.updateRecords(tableId, { fieldKeyType: FieldKeyType.Id, records });
+          result.removed += batchRemoved;
+        } catch (error) {
+          console.error('Failed to remove attachments:', error);
+          result.failedRecordIds.push(...records.map(record => record.id));
+        }
+      }
+
+      onProgress?.(Math.min(i + this.BATCH_SIZE, recordIds.length), recordIds.length);
+    }
+
+    return result;
+  }
+}
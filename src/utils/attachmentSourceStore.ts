@@ -0,0 +1,172 @@
+/**
+ * 附件来源映射存储
+ * 记录每个由插件创建的附件对应的原始URL，用于再次运行时识别已经转换过的链接
+ * 映射按 表格 + 附件字段 分别保存在插件实例 storage 的独立键中，同一插件实例的所有协作者都能识别；
+ * 为控制 storage 的大小，只保存URL的哈希值，且每个字段只保留最近的映射
+ */
+
+import type { IAttachmentItem } from '@teable/core';
+import { PluginStorage, IPluginStorageLocation } from './pluginStorage';
+import { hashString } from './stringHash';
+
+/**
+ * 附件ID到原始URL哈希值的映射
+ */
+export type AttachmentSourceMap = Record<string, string>;
+
+/**
+ * 附件来源映射存储类
+ */
+export class AttachmentSourceStore {
+  private static readonly KEY_PREFIX = 'attachmentSources';
+  private static readonly MAX_SOURCES_PER_FIELD = 5000;
+  private static readonly MAX_SAVE_ATTEMPTS = 3;
+
+  /**
+   * 读取多个附件字段的映射
+   * @param location 插件实例的定位参数
+   * @param tableId 表格ID
+   * @param fieldIds 附件字段ID
+   * @returns 附件字段ID -> 来源映射，读取失败时为空映射
+   */
+  static async load(
+    location: Partial<IPluginStorageLocation>,
+    tableId: string,
+    fieldIds: string[]
+  ): Promise<Map<string, AttachmentSourceMap>> {
+    let storage: Record<string, unknown> = {};
+    try {
+      storage = await PluginStorage.read(location) ?? {};
+    } catch (error) {
+      console.error('Failed to load attachment sources:', error);
+    }
+
+    return new Map(fieldIds.map(fieldId => [fieldId, this.getFieldSources(storage, this.getKey(tableId, fieldId))]));
+  }
+
+  /**
+   * 合并保存新的映射
+   * 超出上限时丢弃最早写入的映射；其他协作者同时写入 storage 可能覆盖本次写入，写入后读回确认，丢失时重新合并
+   * @param location 插件实例的定位参数
+   * @param tableId 表格ID
+   * @param urls 附件字段ID -> 新增的附件ID到原始URL的映射
+   */
+  static async save(
+    location: Partial<IPluginStorageLocation>,
+    tableId: string,
+    urls: Map<string, Record<string, string>>
+  ): Promise<void> {
+    if (urls.size === 0) return;
+
+    // 存储键 -> 新增的附件ID到URL哈希值的映射
+    const newSources = new Map(Array.from(urls, ([fieldId, fieldUrls]): [string, AttachmentSourceMap] => [
+      this.getKey(tableId, fieldId),
+      Object.fromEntries(Object.entries(fieldUrls).map(([attachmentId, url]) => [attachmentId, hashString(url)]))
+    ]));
+
+    for (let attempt = 0; attempt < this.MAX_SAVE_ATTEMPTS; attempt++) {
+      await PluginStorage.update(location, (storage) => {
+        const nextStorage = { ...storage };
+        newSources.forEach((sources, key) => {
+          nextStorage[key] = this.mergeSources(this.getFieldSources(storage, key), sources);
+        });
+        return nextStorage;
+      });
+
+      const savedStorage = await PluginStorage.read(location);
+      if (!savedStorage || this.containsSources(savedStorage, newSources)) {
+        return;
+      }
+    }
+
+    throw new Error('Attachment sources were overwritten by concurrent writes');
+  }
+
+  /**
+   * 在记录现有附件中查找与URL对应的附件
+   * 优先使用来源映射匹配；没有映射时按 文件名 + 文件大小 匹配
+   * @param attachments 记录当前的附件
+   * @param sources 附件来源映射
+   * @param url 原始URL
+   * @param fileNames 候选文件名
+   * @param fileSize 文件大小 (字节)，未知时跳过名称匹配
+   * @returns 匹配到的附件
+   */
+  static findConvertedAttachment(
+    attachments: IAttachmentItem[],
+    sources: AttachmentSourceMap,
+    url: string,
+    fileNames: string[],
+    fileSize?: number
+  ): IAttachmentItem | undefined {
+    const urlHash = hashString(url);
+    const bySource = attachments.find(attachment => sources[attachment.id] === urlHash);
+    if (bySource || fileSize === undefined) {
+      return bySource;
+    }
+
+    return attachments.find(attachment =>
+      attachment.size === fileSize && fileNames.includes(attachment.name)
+    );
+  }
+
+  /**
+   * 从URL路径中提取原始文件名（服务器下载时通常使用该名称）
+   * @param url 原始URL
+   * @returns 文件名，无法解析时返回null
+   */
+  static getUrlFileName(url: string): string | null {
+    try {
+      const segment = new URL(url).pathname.split('/').pop();
+      return segment ? decodeURIComponent(segment) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 从 storage 中取出一个附件字段的映射
+   * @param storage 插件实例的 storage
+   * @param key 存储键
+   * @returns 来源映射
+   */
+  private static getFieldSources(storage: Record<string, unknown>, key: string): AttachmentSourceMap {
+    const sources = storage[key];
+    return sources && typeof sources === 'object' ? sources as AttachmentSourceMap : {};
+  }
+
+  /**
+   * 合并映射，新的映射排在最后，超出上限时丢弃最早的映射
+   * @param sources 已保存的映射
+   * @param newSources 新增的映射
+   * @returns 合并后的映射
+   */
+  private static mergeSources(sources: AttachmentSourceMap, newSources: AttachmentSourceMap): AttachmentSourceMap {
+    const merged = Object.entries(sources).filter(([attachmentId]) => !(attachmentId in newSources));
+    merged.push(...Object.entries(newSources));
+    return Object.fromEntries(merged.slice(-this.MAX_SOURCES_PER_FIELD));
+  }
+
+  /**
+   * 检查 storage 中是否包含全部新增的映射
+   * @param storage 插件实例的 storage
+   * @param newSources 存储键 -> 新增的映射
+   * @returns 是否全部包含
+   */
+  private static containsSources(storage: Record<string, unknown>, newSources: Map<string, AttachmentSourceMap>): boolean {
+    return Array.from(newSources).every(([key, sources]) => {
+      const savedSources = this.getFieldSources(storage, key);
+      return Object.entries(sources).every(([attachmentId, urlHash]) => savedSources[attachmentId] === urlHash);
+    });
+  }
+
+  /**
+   * 生成映射的存储键
+   * @param tableId 表格ID
+   * @param fieldId 附件字段ID
+   * @returns 存储键
+   */
+  private static getKey(tableId: string, fieldId: string): string {
+    return `${this.KEY_PREFIX}:${tableId}:${fieldId}`;
+  }
+}
@@ -1,11 +1,15 @@
 /**
  * 附件上传器
  * 使用 Teable 的 uploadAttachment API 将 URL 转换为真正的附件
- * 支持通过 fileUrl 参数让服务器下载并上传文件
+ * 支持通过 fileUrl 参数让服务器下载并上传文件，也支持直接上传浏览器中已下载的文件内容
  */
 
 import { IDownloadResult } from './fileDownloader';
-import { axios } from '@teable/openapi';
+import { RetryPolicy, RequestError, RequestErrorKind, IRetryPolicyConfig } from './retryPolicy';
+import { RequestWatchdog, RequestTimeoutError, RequestTimeoutPhase } from './requestTimeout';
+import { axios, getRecord, updateRecords } from '@teable/openapi';
+import { FieldKeyType, generateAttachmentId } from '@teable/core';
+import type { IAttachmentItem } from '@teable/core';
 
 /**
  * 上传进度信息
@@ -23,6 +27,18 @@ export interface IUploadProgress {
   timeRemaining?: number;
 }
 
+/**
+ * 请求上传进度事件（axios onUploadProgress 回调参数中用到的部分）
+ */
+interface IRequestProgressEvent {
+  loaded: number;
+  total?: number;
+  /** 上传速度 (字节/秒) */
+  rate?: number;
+  /** 剩余时间估算 (秒) */
+  estimated?: number;
+}
+
 /**
  * 上传结果
  */
@@ -33,6 +49,8 @@ export interface IUploadResult {
   success: boolean;
   /** 附件ID */
   attachmentId?: string;
+  /** 上传得到的附件，可以复用到其他记录 */
+  attachment?: IAttachmentItem;
   /** 文件名 */
   fileName?: string;
   /** 文件大小 */
@@ -41,6 +59,10 @@ export interface IUploadResult {
   duration: number;
   /** 错误信息 */
   error?: string;
+  /** 错误类别 */
+  errorKind?: RequestErrorKind;
+  /** 客户端超时中止请求时的超时类型，服务器返回的超时 (HTTP 408) 不算 */
+  timeoutPhase?: RequestTimeoutPhase;
   /** 上传进度历史 */
   progressHistory: IUploadProgress[];
 }
@@ -49,20 +71,22 @@ export interface IUploadResult {
  * 上传配置
  */
 export interface IUploadConfig {
-  /** 上传超时时间 (毫秒) */
+  /** 上传总超时时间 (毫秒)，包括服务器下载源链接的时间，0 表示不限制 */
   timeout: number;
+  /** 停滞超时时间 (毫秒)：发送文件内容时连续这么久没有进度即视为超时，未设置时不检测 */
+  stallTimeout?: number;
   /** 重试次数 */
   retryCount: number;
   /** 重试延迟 (毫秒) */
   retryDelay: number;
+  /** 重试策略，可按错误类别覆盖重试次数和延迟 */
+  retryPolicy?: Omit<IRetryPolicyConfig, 'maxRetries' | 'baseDelay'>;
   /** 是否保留原始链接作为备注 */
   preserveOriginalLink: boolean;
   /** 并发上传数 */
   maxConcurrency: number;
   /** 进度回调 */
   onProgress?: (originalUrl: string, progress: IUploadProgress) => void;
-  /** 上传完成回调 */
-  onComplete?: (result: IUploadResult) => void;
   /** 上传错误回调 */
   onError?: (originalUrl: string, error: string) => void;
 }
@@ -72,18 +96,17 @@ export interface IUploadConfig {
  */
 export class AttachmentUploader {
   private config: IUploadConfig;
-  private activeUploads = new Map<string, AbortController>();
-  private uploadQueue: Array<{
-    downloadResult: IDownloadResult;
-    tableId: string;
-    recordId: string;
-    fieldId: string;
-    resolve: (result: IUploadResult) => void;
-  }> = [];
-  private currentUploads = 0;
+  // 每个请求各自的取消控制器 -> 原始URL；同一URL可能同时上传到多条记录，不能按URL区分
+  private activeUploads = new Map<AbortController, string>();
+  private retryPolicy: RetryPolicy;
 
   constructor(config: IUploadConfig) {
     this.config = { ...config };
+    this.retryPolicy = new RetryPolicy({
+      ...config.retryPolicy,
+      maxRetries: config.retryCount,
+      baseDelay: config.retryDelay
+    });
   }
 
   /**
@@ -95,15 +118,107 @@ export class AttachmentUploader {
    * @param tableId 表格ID
    * @param recordId 记录ID
    * @param fieldId 字段ID
-   * @param retryCount 当前重试次数
    * @returns 上传结果
    */
   async uploadFromUrl(
+    url: string,
+    fileName: string,
+    tableId: string,
+    recordId: string,
+    fieldId: string
+  ): Promise<IUploadResult> {
+    return this.uploadAttachment(url, fileName, tableId, recordId, fieldId, () => {
+      const formData = new FormData();
+      formData.append('fileUrl', url);
+      return formData;
+    }, true);
+  }
+
+  /**
+   * 上传浏览器中已有的文件内容
+   * 以 multipart 文件的形式发送到附件字段，适用于 Teable 服务器无法访问的链接（如内网地址）
+   * @param blob 文件内容
+   * @param fileName 文件名
+   * @param originalUrl 原始URL（用于结果和日志）
+   * @param tableId 表格ID
+   * @param recordId 记录ID
+   * @param fieldId 字段ID
+   * @returns 上传结果
+   */
+  async uploadFromBlob(
+    blob: Blob,
+    fileName: string,
+    originalUrl: string,
+    tableId: string,
+    recordId: string,
+    fieldId: string
+  ): Promise<IUploadResult> {
+    return this.uploadAttachment(originalUrl, fileName, tableId, recordId, fieldId, () => {
+      const formData = new FormData();
+      formData.append('file', blob, fileName);
+      return formData;
+    });
+  }
+
+  /**
+   * 上传下载结果中的文件内容
+   * 使用下载器得到的文件名和MIME类型，以 multipart 文件的形式发送
+   * @param downloadResult 下载结果
+   * @param tableId 表格ID
+   * @param recordId 记录ID
+   * @param fieldId 字段ID
+   * @returns 上传结果
+   */
+  async uploadFromDownloadResult(
+    downloadResult: IDownloadResult,
+    tableId: string,
+    recordId: string,
+    fieldId: string
+  ): Promise<IUploadResult> {
+    if (!downloadResult.success || !downloadResult.data) {
+      return {
+        originalUrl: downloadResult.url,
+        success: false,
+        error: downloadResult.error || 'No downloaded file data to upload',
+        duration: 0,
+        progressHistory: []
+      };
+    }
+
+    const blob = new Blob([downloadResult.data], {
+      type: downloadResult.mimeType || 'application/octet-stream'
+    });
+
+    return this.uploadFromBlob(
+      blob,
+      downloadResult.fileName || 'download',
+      downloadResult.url,
+      tableId,
+      recordId,
+      fieldId
+    );
+  }
+
+  /**
+   * 调用 uploadAttachment 接口上传附件
+   * @param url 原始URL
+   * @param fileName 文件名
+   * @param tableId 表格ID
+   * @param recordId 记录ID
+   * @param fieldId 字段ID
+   * @param createFormData 生成请求体，每次重试重新生成
+   * @param fetchesSource 服务器是否会访问原始URL
+   * @param retryCount 当前重试次数
+   * @returns 上传结果
+   */
+  private async uploadAttachment(
     url: string,
     fileName: string,
     tableId: string,
     recordId: string,
     fieldId: string,
+    createFormData: () => FormData,
+    fetchesSource: boolean = false,
     retryCount: number = 0
   ): Promise<IUploadResult> {
     const startTime = Date.now();
@@ -114,10 +229,11 @@ export class AttachmentUploader {
       progressHistory: []
     };
 
+    // 创建AbortController
+    const abortController = new AbortController();
+
     try {
-      // 创建AbortController
-      const abortController = new AbortController();
-      this.activeUploads.set(url, abortController);
+      this.activeUploads.set(abortController, url);
 
       console.log(`Uploading from URL: ${url}`);
       console.log(`File name: ${fileName}`);
@@ -125,8 +241,7 @@ export class AttachmentUploader {
 
       // 使用浏览器原生的 FormData API 来调用 uploadAttachment 接口
       // 这样可以避免 Node.js form-data 包的兼容性问题
-      const formData = new FormData();
-      formData.append('fileUrl', url);
+      const formData = createFormData();
 
       // 构建 API URL（直接使用字符串模板，避免导入问题）
       const apiUrl = `/table/${tableId}/record/${recordId}/${fieldId}/uploadAttachment`;
@@ -134,7 +249,54 @@ export class AttachmentUploader {
       // 发送请求
       // axios 拦截器已经检测到 FormData 并跳过了 Content-Type 设置
       // 浏览器会自动设置正确的 multipart/form-data Content-Type 和 boundary
-      const uploadResponse = await axios.post(apiUrl, formData);
+      let lastProgressTime = 0;
+      let watchdog: RequestWatchdog | null = null;
+      const sendRequest = () => {
+        // 超时从真正发出请求开始计算，不包括排队等待的时间
+        watchdog = new RequestWatchdog(abortController, this.config);
+        return postAttachment();
+      };
+      const postAttachment = () => axios.post(apiUrl, formData, {
+        signal: abortController.signal,
+        // 由调用方处理错误状态码，保留 Retry-After 等响应头
+        validateStatus: () => true,
+        onUploadProgress: (event: IRequestProgressEvent) => {
+          // 请求体发送完后服务器可能还在下载源链接，这段时间没有进度，只受总超时限制
+          const finished = event.total !== undefined && event.loaded >= event.total;
+          if (finished) {
+            watchdog?.stopStallTimer();
+          } else {
+            watchdog?.touch();
+          }
+
+          // 每500ms更新一次进度，最后一次总是上报
+          const now = Date.now();
+          if (!finished && now - lastProgressTime < 500) return;
+
+          const progress = this.toUploadProgress(event);
+          result.progressHistory.push(progress);
+          this.config.onProgress?.(url, progress);
+          lastProgressTime = now;
+        }
+      }).then((response) => {
+        if (response.status >= 400) {
+          const message = response.data?.message ?? response.statusText;
+          throw RequestError.fromResponse(response.status, message, response.headers['retry-after']);
+        }
+        return response;
+      }, (error: unknown) => {
+        // 未收到响应：超时、被取消或网络错误
+        const timeoutError = watchdog?.getTimeoutError();
+        if (timeoutError) {
+          throw timeoutError;
+        }
+        throw new RequestError(
+          error instanceof Error ? error.message : 'Network error',
+          abortController.signal.aborted ? 'cancelled' : 'network'
+        );
+      }).finally(() => watchdog?.dispose());
+
+      const uploadResponse = await sendRequest();
 
       if (!uploadResponse.data) {
         throw new Error('Upload failed: No response data');
@@ -154,25 +316,41 @@ export class AttachmentUploader {
         if (attachments && attachments.length > 0) {
           const lastAttachment = attachments[attachments.length - 1];
           result.attachmentId = lastAttachment.id;
+          result.attachment = lastAttachment;
           result.fileSize = lastAttachment.size;
         }
       }
 
     } catch (error) {
-      result.error = error instanceof Error ? error.message : 'Unknown upload error';
+      const requestError = RequestError.from(error);
+      result.error = requestError.message;
+      result.errorKind = requestError.kind;
+      if (requestError instanceof RequestTimeoutError) {
+        result.timeoutPhase = requestError.phase;
+      }
       console.error(`Failed to upload ${url}:`, error);
 
       // 重试逻辑
-      if (retryCount < this.config.retryCount && this.shouldRetry(error)) {
-        this.config.onError?.(url, `Retrying upload (${retryCount + 1}/${this.config.retryCount}): ${result.error}`);
+      // 由服务器下载源链接时，客户端超时中止请求后服务器可能仍会完成下载并写入附件，重试会产生重复附件
+      const mayStillComplete = fetchesSource && requestError instanceof RequestTimeoutError;
+      const retryDelay = mayStillComplete ? null : this.retryPolicy.getRetryDelay(requestError, retryCount);
+      if (retryDelay !== null) {
+        this.config.onError?.(url, `Retrying upload (${retryCount + 1}/${this.retryPolicy.getRule(requestError.kind).maxRetries}): ${result.error}`);
 
         // 等待重试延迟
-        await this.delay(this.config.retryDelay * Math.pow(2, retryCount));
+        await this.delay(retryDelay);
+
+        // 等待期间被取消时不再重试
+        if (abortController.signal.aborted) {
+          result.error = 'Upload was cancelled';
+          result.errorKind = 'cancelled';
+          return result;
+        }
 
-        return this.uploadFromUrl(url, fileName, tableId, recordId, fieldId, retryCount + 1);
+        return this.uploadAttachment(url, fileName, tableId, recordId, fieldId, createFormData, fetchesSource, retryCount + 1);
       }
     } finally {
-      this.activeUploads.delete(url);
+      this.activeUploads.delete(abortController);
       result.duration = Date.now() - startTime;
     }
 
@@ -180,91 +358,158 @@ export class AttachmentUploader {
   }
 
   /**
-   * 处理上传队列
+   * 将 axios 上传进度事件转换为上传进度信息
+   * @param event 进度事件
+   * @returns 上传进度
    */
-  private async processQueue(): Promise<void> {
-    if (this.currentUploads >= this.config.maxConcurrency || this.uploadQueue.length === 0) {
-      return;
+  private toUploadProgress(event: IRequestProgressEvent): IUploadProgress {
+    const total = event.total ?? 0;
+    const progress: IUploadProgress = {
+      percentage: total ? Math.min(100, (event.loaded / total) * 100) : 0,
+      loaded: event.loaded,
+      total
+    };
+
+    if (event.rate !== undefined) {
+      progress.speed = event.rate;
+    }
+    if (event.estimated !== undefined) {
+      progress.timeRemaining = event.estimated;
     }
 
-    const { downloadResult, tableId, recordId, fieldId, resolve } = this.uploadQueue.shift()!;
-    this.currentUploads++;
+    return progress;
+  }
 
-    try {
-      // 使用uploadFromUrl方法
-      const result = await this.uploadFromUrl(
-        downloadResult.url,
-        downloadResult.fileName || 'download',
-        tableId,
-        recordId,
-        fieldId
-      );
-      resolve(result);
-      this.config.onComplete?.(result);
-    } catch (error) {
-      const errorResult: IUploadResult = {
-        originalUrl: downloadResult.url,
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown upload error',
-        duration: 0,
-        progressHistory: []
-      };
-      resolve(errorResult);
-      this.config.onError?.(downloadResult.url, errorResult.error || 'Upload failed');
-    } finally {
-      this.currentUploads--;
-      this.processQueue(); // 处理队列中的下一个上传
-    }
+  /**
+   * 延迟函数
+   * @param ms 延迟毫秒数
+   */
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
-   * 检查是否应该重试
-   * @param error 错误对象
-   * @returns 是否应该重试
+   * 将已上传的附件添加到另一条记录，不再重新下载和上传文件
+   * 新附件与原附件引用同一个已存储的文件，只生成新的附件ID；写入前重新读取单元格，追加到已有附件之后
+   * @param source 已上传的附件
+   * @param originalUrl 原始URL（用于结果和日志）
+   * @param tableId 表格ID
+   * @param recordId 记录ID
+   * @param fieldId 附件字段ID
+   * @param name 文件名，未提供时沿用原附件的文件名
+   * @returns 上传结果
    */
-  private shouldRetry(error: unknown): boolean {
-    if (error instanceof Error) {
-      // 网络错误或超时错误可以重试
-      return error.message.includes('timeout') ||
-             error.message.includes('network') ||
-             error.message.includes('fetch') ||
-             error.message.includes('connection') ||
-             error.message.includes('500') ||
-             error.message.includes('502') ||
-             error.message.includes('503') ||
-             error.message.includes('504');
+  async attachExisting(
+    source: IAttachmentItem,
+    originalUrl: string,
+    tableId: string,
+    recordId: string,
+    fieldId: string,
+    name: string = source.name
+  ): Promise<IUploadResult> {
+    const startTime = Date.now();
+    const result: IUploadResult = {
+      originalUrl,
+      success: false,
+      duration: 0,
+      progressHistory: []
+    };
+
+    try {
+      const { data: record } = await getRecord(tableId, recordId, {
+        fieldKeyType: FieldKeyType.Id,
+        projection: [fieldId]
+      });
+
+      const value = record.fields[fieldId];
+      const attachments = Array.isArray(value) ? value as IAttachmentItem[] : [];
+      // 只复制文件本身的信息，预览地址由服务器按附件生成
+      const attachment: IAttachmentItem = {
+        id: generateAttachmentId(),
+        name,
+        path: source.path,
+        token: source.token,
+        size: source.size,
+        mimetype: source.mimetype,
+        ...(source.width !== undefined ? { width: source.width } : {}),
+        ...(source.height !== undefined ? { height: source.height } : {})
+      };
+
+      await updateRecords(tableId, {
+        fieldKeyType: FieldKeyType.Id,
+        records: [{ id: recordId, fields: { [fieldId]: [...attachments, attachment] } }]
+      });
+
+      result.success = true;
+      result.attachmentId = attachment.id;
+      result.attachment = attachment;
+      result.fileName = name;
+      result.fileSize = attachment.size;
+    } catch (error) {
+      result.error = RequestError.from(error).message;
+      console.error(`Failed to attach existing file for ${originalUrl}:`, error);
+    } finally {
+      result.duration = Date.now() - startTime;
     }
-    return false;
+
+    return result;
   }
 
   /**
-   * 延迟函数
-   * @param ms 延迟毫秒数
+   * 重命名附件字段中的一个附件
+   * 由服务器下载的附件按服务器的规则命名，需要在上传后改为指定的文件名；写入前重新读取单元格，其他附件保持不变
+   * @param tableId 表格ID
+   * @param recordId 记录ID
+   * @param fieldId 附件字段ID
+   * @param attachmentId 附件ID
+   * @param name 新文件名
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  async renameAttachment(
+    tableId: string,
+    recordId: string,
+    fieldId: string,
+    attachmentId: string,
+    name: string
+  ): Promise<void> {
+    const { data: record } = await getRecord(tableId, recordId, {
+      fieldKeyType: FieldKeyType.Id,
+      projection: [fieldId]
+    });
+
+    const value = record.fields[fieldId];
+    const attachments = Array.isArray(value) ? value as IAttachmentItem[] : [];
+    const attachment = attachments.find(item => item.id === attachmentId);
+    if (!attachment || attachment.name === name) return;
+
+    await updateRecords(tableId, {
+      fieldKeyType: FieldKeyType.Id,
+      records: [{
+        id: recordId,
+        fields: { [fieldId]: attachments.map(item => item.id === attachmentId ? { ...item, name } : item) }
+      }]
+    });
   }
 
   /**
    * 取消所有上传
    */
   cancelAllUploads(): void {
-    for (const [, controller] of this.activeUploads) {
+    for (const controller of this.activeUploads.keys()) {
       controller.abort();
     }
     this.activeUploads.clear();
-    this.uploadQueue.length = 0;
   }
 
   /**
-   * 取消特定URL的上传
+   * 取消特定URL的全部上传
    * @param url 要取消的原始URL
    */
   cancelUpload(url: string): void {
-    const controller = this.activeUploads.get(url);
-    if (controller) {
-      controller.abort();
-      this.activeUploads.delete(url);
+    for (const [controller, activeUrl] of this.activeUploads) {
+      if (activeUrl === url) {
+        controller.abort();
+        this.activeUploads.delete(controller);
+      }
     }
   }
 
@@ -274,12 +519,10 @@ export class AttachmentUploader {
    */
   getUploadStatus(): {
     activeUploads: number;
-    queuedUploads: number;
     maxConcurrency: number;
   } {
     return {
       activeUploads: this.activeUploads.size,
-      queuedUploads: this.uploadQueue.length,
       maxConcurrency: this.config.maxConcurrency
     };
   }
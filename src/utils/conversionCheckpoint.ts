@@ -0,0 +1,159 @@
+/**
+ * 转换检查点存储
+ * 将一次转换运行中已完成的链接持久化到 localStorage，
+ * 插件 iframe 重新加载或标签页关闭后可以从检查点继续，避免重复上传
+ * 已完成的链接只保存紧凑键，大表也不会超出 localStorage 配额；
+ * 链接所在记录的回写（替换、移动、状态字段）完成后才算完成，续传时已上传但未回写的记录会重新回写
+ */
+
+import { IConverterConfig, IConversionRetryItem, getFieldMappings } from '../components/link-converter/types';
+import { hashString } from './stringHash';
+
+/**
+ * 检查点中单个链接的状态
+ */
+export type CheckpointItemStatus = 'pending' | 'awaitingWriteBack' | 'completed' | 'failed';
+
+/**
+ * 已转换但所在记录尚未回写的链接
+ */
+export interface ICheckpointWriteBackItem extends IConversionRetryItem {
+  /** 附件ID，没有创建附件时为空字符串 */
+  attachmentId: string;
+}
+
+/**
+ * 转换检查点
+ */
+export interface IConversionCheckpoint {
+  /** 存储键 */
+  key: string;
+  /** 表格ID */
+  tableId: string;
+  /** 视图ID */
+  viewId: string;
+  /** 开始时间 (时间戳) */
+  startedAt: number;
+  /** 最后更新时间 (时间戳) */
+  updatedAt: number;
+  /** 已完成的链接（包括所在记录的回写）：链接键 -> 附件ID，没有创建附件时为空字符串 */
+  completed: Record<string, string>;
+  /** 已转换但所在记录尚未回写的链接：链接键 -> 链接，续传时不再上传，只重新回写记录 */
+  awaitingWriteBack: Record<string, ICheckpointWriteBackItem>;
+  /** 处理失败的链接 */
+  failed: IConversionRetryItem[];
+  /** 已扫描但尚未处理完的链接 */
+  pending: IConversionRetryItem[];
+}
+
+/**
+ * 检查点统计
+ */
+export interface ICheckpointStats {
+  total: number;
+  completed: number;
+  failed: number;
+  pending: number;
+}
+
+/**
+ * 转换检查点存储类
+ */
+export class ConversionCheckpointStore {
+  private static readonly KEY_PREFIX = 'link-converter:checkpoint';
+
+  /**
+   * 生成检查点存储键
+   * 只有决定"转换什么、转换到哪里"的配置参与计算，调整并发数等设置不会丢失检查点
+   * @param tableId 表格ID
+   * @param viewId 视图ID
+   * @param config 转换配置
+   * @returns 存储键
+   */
+  static getKey(tableId: string, viewId: string, config: IConverterConfig): string {
+    const identity = JSON.stringify({
+      mappings: getFieldMappings(config)
+        .map(mapping => `${mapping.urlFieldId}>${mapping.attachmentFieldId}`)
+        .sort()
+    });
+
+    return `${this.KEY_PREFIX}:${tableId}:${viewId || 'all'}:${hashString(identity)}`;
+  }
+
+  /**
+   * 生成检查点中链接的唯一键
+   * URL只保存哈希值，同一单元格内的链接不会重复，因此不会产生冲突
+   * @param recordId 记录ID
+   * @param fieldId 字段ID
+   * @param url 原始URL
+   * @returns 链接唯一键
+   */
+  static getItemKey(recordId: string, fieldId: string, url: string): string {
+    return `${recordId}|${fieldId}|${hashString(url)}`;
+  }
+
+  /**
+   * 读取检查点
+   * @param key 存储键
+   * @returns 检查点，不存在、解析失败或为旧格式时返回null
+   */
+  static load(key: string): IConversionCheckpoint | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const raw = window.localStorage.getItem(key);
+      const checkpoint = raw ? JSON.parse(raw) as IConversionCheckpoint : null;
+      return checkpoint?.completed && checkpoint.awaitingWriteBack && Array.isArray(checkpoint.pending) ? checkpoint : null;
+    } catch (error) {
+      console.error('Failed to load conversion checkpoint:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存检查点
+   * 存储空间不足时不影响转换本身，由调用方决定是否提示
+   * @param checkpoint 检查点
+   * @returns 是否保存成功
+   */
+  static save(checkpoint: IConversionCheckpoint): boolean {
+    if (typeof window === 'undefined') return true;
+
+    try {
+      window.localStorage.setItem(checkpoint.key, JSON.stringify({
+        ...checkpoint,
+        updatedAt: Date.now()
+      }));
+      return true;
+    } catch (error) {
+      console.error('Failed to save conversion checkpoint:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 删除检查点
+   * @param key 存储键
+   */
+  static remove(key: string): void {
+    if (typeof window === 'undefined') return;
+    window.localStorage.removeItem(key);
+  }
+
+  /**
+   * 统计检查点中各状态的链接数
+   * @param checkpoint 检查点
+   * @returns 统计信息
+   */
+  static getStats(checkpoint: IConversionCheckpoint): ICheckpointStats {
+    const completed = Object.keys(checkpoint.completed).length;
+    // 尚未回写的链接还没有完成
+    const pending = checkpoint.pending.length + Object.keys(checkpoint.awaitingWriteBack).length;
+    return {
+      total: completed + checkpoint.failed.length + pending,
+      completed,
+      failed: checkpoint.failed.length,
+      pending
+    };
+  }
+}
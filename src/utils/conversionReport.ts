@@ -0,0 +1,138 @@
+/**
+ * 转换报告导出
+ * 将一次运行的转换结果导出为 CSV 或 JSON 文件
+ */
+
+import { IConversionResult, ConversionSkipReason } from '../components/link-converter/types';
+
+/**
+ * 导出格式
+ */
+export type ReportFormat = 'csv' | 'json';
+
+/**
+ * 报告中的单行
+ */
+export interface IConversionReportRow {
+  /** 记录ID */
+  recordId: string;
+  /** 源字段ID */
+  sourceFieldId: string;
+  /** 源字段名称 */
+  sourceFieldName: string;
+  /** 原始URL */
+  url: string;
+  /** 是否成功 */
+  success: boolean;
+  /** 是否被跳过 */
+  skipped: boolean;
+  /** 跳过原因 */
+  skipReason: ConversionSkipReason | '';
+  /** 错误信息 */
+  errorMessage: string;
+  /** 文件名 */
+  fileName: string;
+  /** 文件大小 (字节) */
+  fileSize: number | null;
+  /** 处理时间 (毫秒) */
+  processingTime: number;
+}
+
+/**
+ * 转换报告类
+ */
+export class ConversionReport {
+  private static readonly CSV_COLUMNS: Array<keyof IConversionReportRow> = [
+    'recordId',
+    'sourceFieldId',
+    'sourceFieldName',
+    'url',
+    'success',
+    'skipped',
+    'skipReason',
+    'errorMessage',
+    'fileName',
+    'fileSize',
+    'processingTime'
+  ];
+
+  /**
+   * 生成报告行
+   * @param results 转换结果
+   * @param fieldNames 字段ID到字段名称的映射
+   * @returns 报告行
+   */
+  static toRows(results: IConversionResult[], fieldNames: Record<string, string> = {}): IConversionReportRow[] {
+    return results.map(result => ({
+      recordId: result.recordId,
+      sourceFieldId: result.fieldId,
+      sourceFieldName: fieldNames[result.fieldId] ?? '',
+      url: result.url,
+      success: result.success,
+      skipped: result.skipped ?? false,
+      skipReason: result.skipReason ?? '',
+      errorMessage: result.errorMessage ?? '',
+      fileName: result.fileName ?? '',
+      fileSize: result.fileSize ?? null,
+      processingTime: result.processingTime
+    }));
+  }
+
+  /**
+   * 生成 CSV 内容
+   * @param rows 报告行
+   * @returns CSV 文本
+   */
+  static toCsv(rows: IConversionReportRow[]): string {
+    const lines = [
+      this.CSV_COLUMNS.join(','),
+      ...rows.map(row => this.CSV_COLUMNS.map(column => this.escapeCsvValue(row[column])).join(','))
+    ];
+    return lines.join('\r\n');
+  }
+
+  /**
+   * 生成 JSON 内容
+   * @param rows 报告行
+   * @returns JSON 文本
+   */
+  static toJson(rows: IConversionReportRow[]): string {
+    return JSON.stringify(rows, null, 2);
+  }
+
+  /**
+   * 在浏览器中下载报告
+   * @param results 转换结果
+   * @param format 导出格式
+   * @param fieldNames 字段ID到字段名称的映射
+   */
+  static download(results: IConversionResult[], format: ReportFormat, fieldNames: Record<string, string> = {}): void {
+    const rows = this.toRows(results, fieldNames);
+
+    // CSV 加上 BOM，Excel 打开时才能正确识别 UTF-8
+    const content = format === 'csv' ? `\uFEFF${this.toCsv(rows)}` : this.toJson(rows);
+    const mimeType = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `link-conversion-report-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * 转义 CSV 单元格
+   * 以 = + - @ 或制表符、回车开头的文本会被电子表格当作公式执行，加上单引号前缀按普通文本显示
+   * @param value 单元格值
+   * @returns 转义后的文本
+   */
+  private static escapeCsvValue(value: string | number | boolean | null): string {
+    if (value === null) return '';
+
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+}
@@ -4,7 +4,11 @@
  */
 
 import { UrlDetector, IFileInfo } from './urlDetector';
-import { FileTypeCategory, FILE_TYPE_EXTENSIONS } from '../components/link-converter/types';
+import { HostScheduler } from './hostScheduler';
+import { RetryPolicy, RequestError, RequestErrorKind, IRetryPolicyConfig } from './retryPolicy';
+import { RequestWatchdog } from './requestTimeout';
+import { FileTypeSniffer, IFileTypeVerification } from './fileTypeSniffer';
+import { FileTypeCategory, FILE_TYPE_EXTENSIONS, DANGEROUS_FILE_EXTENSIONS, ConversionSkipReason } from '../components/link-converter/types';
 
 /**
  * 下载进度信息
@@ -42,12 +46,32 @@ export interface IDownloadResult {
   mimeType?: string;
   /** 错误信息 */
   error?: string;
+  /** 错误类别 */
+  errorKind?: RequestErrorKind;
   /** 下载耗时 (毫秒) */
   duration: number;
   /** 下载进度历史 */
   progressHistory: IDownloadProgress[];
 }
 
+/**
+ * 文件预检结果（不下载文件内容）
+ */
+export interface IFileInspection {
+  /** 原始URL */
+  url: string;
+  /** 是否允许转换 */
+  allowed: boolean;
+  /** 将要使用的文件名 */
+  fileName: string;
+  /** 文件大小 (字节，服务器未返回时为空) */
+  fileSize?: number;
+  /** MIME类型 */
+  mimeType?: string;
+  /** 不允许转换的原因 */
+  reason?: ConversionSkipReason;
+}
+
 /**
  * 下载配置
  */
@@ -56,16 +80,22 @@ export interface IDownloadConfig {
   maxConcurrency: number;
   /** 文件大小限制 (字节) */
   maxFileSize: number;
-  /** 请求超时时间 (毫秒) */
+  /** 请求总超时时间 (毫秒)，0 表示不限制 */
   timeout: number;
+  /** 停滞超时时间 (毫秒)：连续这么久没有收到数据即视为超时，未设置时不检测 */
+  stallTimeout?: number;
   /** 重试次数 */
   retryCount: number;
   /** 重试延迟 (毫秒) */
   retryDelay: number;
+  /** 重试策略，可按错误类别覆盖重试次数和延迟 */
+  retryPolicy?: Omit<IRetryPolicyConfig, 'maxRetries' | 'baseDelay'>;
   /** 允许的文件类型 */
   allowedFileTypes: FileTypeCategory[];
   /** 是否允许所有文件类型 */
   allowAllFileTypes: boolean;
+  /** 按主机的请求调度器，未提供时不限制 */
+  scheduler?: HostScheduler;
   /** 进度回调 */
   onProgress?: (url: string, progress: IDownloadProgress) => void;
   /** 下载完成回调 */
@@ -79,12 +109,19 @@ export interface IDownloadConfig {
  */
 export class FileDownloader {
   private config: IDownloadConfig;
-  private activeDownloads = new Map<string, AbortController>();
+  // 每个请求各自的取消控制器 -> 原始URL；同一URL可能同时有多个请求，不能按URL区分
+  private activeDownloads = new Map<AbortController, string>();
   private downloadQueue: Array<{ url: string; resolve: (result: IDownloadResult) => void }> = [];
   private currentDownloads = 0;
+  private retryPolicy: RetryPolicy;
 
   constructor(config: IDownloadConfig) {
     this.config = { ...config };
+    this.retryPolicy = new RetryPolicy({
+      ...config.retryPolicy,
+      maxRetries: config.retryCount,
+      baseDelay: config.retryDelay
+    });
   }
 
   /**
@@ -102,6 +139,9 @@ export class FileDownloader {
       progressHistory: []
     };
 
+    // 创建AbortController用于取消下载
+    const abortController = new AbortController();
+
     try {
       // 清理URL
       const normalizedUrl = UrlDetector.normalizeUrl(url);
@@ -115,113 +155,317 @@ export class FileDownloader {
         throw new Error('File type not allowed');
       }
 
-      // 创建AbortController用于取消下载
-      const abortController = new AbortController();
-      this.activeDownloads.set(url, abortController);
+      this.activeDownloads.set(abortController, url);
+
+      // 按主机限制并发和频率，读取完响应内容前一直占用该主机的并发名额
+      const { data, contentType, finalUrl, contentDisposition } = await this.schedule(normalizedUrl, async () => {
+        // 超时从真正发出请求开始计算，不包括排队等待的时间
+        const watchdog = new RequestWatchdog(abortController, this.config);
+        try {
+          return await this.fetchFile(normalizedUrl, url, abortController.signal, watchdog, result);
+        } catch (error) {
+          throw watchdog.wrapError(error);
+        } finally {
+          watchdog.dispose();
+        }
+      }, abortController.signal);
+
+      // 生成文件名：优先使用服务器指定的文件名，其次是重定向后的URL
+      const fileName = UrlDetector.resolveFileName(normalizedUrl, { finalUrl, contentDisposition, contentType });
+
+      // 按文件内容核实类型：拒绝伪装成文件的网页，扩展名与内容不符时更正
+      const verification = FileTypeSniffer.verify(data.subarray(0, FileTypeSniffer.SNIFF_LENGTH), contentType, fileName);
+      if (verification.isWebPage) {
+        throw new Error('Response is a web page, not a file');
+      }
+      if (!this.isVerifiedTypeAllowed(verification)) {
+        throw new Error('File type not allowed');
+      }
+
+      // 填充结果
+      result.success = true;
+      result.data = data.buffer;
+      if (fileInfo) {
+        result.fileInfo = fileInfo;
+      }
+      result.fileName = verification.fileName;
+      result.fileSize = data.length;
+      result.mimeType = verification.mimeType || contentType || 'application/octet-stream';
+
+    } catch (error) {
+      const requestError = RequestError.from(error);
+      result.error = requestError.message;
+      result.errorKind = requestError.kind;
+
+      // 重试逻辑
+      const retryDelay = this.retryPolicy.getRetryDelay(requestError, retryCount);
+      if (retryDelay !== null) {
+        this.config.onError?.(url, `Retrying (${retryCount + 1}/${this.retryPolicy.getRule(requestError.kind).maxRetries}): ${result.error}`);
+
+        // 等待重试延迟
+        await this.delay(retryDelay);
 
-      // 开始下载
-      const response = await fetch(normalizedUrl, {
-        method: 'GET',
-        signal: abortController.signal,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
+        // 等待期间被取消时不再重试
+        if (abortController.signal.aborted) {
+          result.error = 'Download was cancelled';
+          result.errorKind = 'cancelled';
+          return result;
         }
-      });
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+        return this.downloadFile(url, retryCount + 1);
       }
+    } finally {
+      // 清理
+      this.activeDownloads.delete(abortController);
+      result.duration = Date.now() - startTime;
+    }
 
-      const contentLength = response.headers.get('content-length');
-      const totalSize = contentLength ? parseInt(contentLength, 10) : undefined;
+    return result;
+  }
 
-      // 检查文件大小
-      if (totalSize && totalSize > this.config.maxFileSize) {
-        throw new Error(`File size (${Math.round(totalSize / 1024 / 1024)}MB) exceeds limit (${Math.round(this.config.maxFileSize / 1024 / 1024)}MB)`);
+  /**
+   * 请求文件并读取全部内容，每收到一块数据重置停滞计时
+   * @param normalizedUrl 清理后的URL
+   * @param url 原始URL，用于进度回调
+   * @param signal 取消信号
+   * @param watchdog 超时监视器
+   * @param result 下载结果，用于记录进度
+   * @returns 文件内容，以及用于确定文件名的响应信息
+   */
+  private async fetchFile(
+    normalizedUrl: string,
+    url: string,
+    signal: AbortSignal,
+    watchdog: RequestWatchdog,
+    result: IDownloadResult
+  ): Promise<{
+    data: Uint8Array<ArrayBuffer>;
+    contentType: string | null;
+    finalUrl: string;
+    contentDisposition: string | null;
+  }> {
+    const response = await fetch(normalizedUrl, {
+      method: 'GET',
+      signal,
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
       }
+    });
+
+    watchdog.touch();
+
+    if (!response.ok) {
+      throw RequestError.fromResponse(response.status, response.statusText, response.headers.get('retry-after'));
+    }
+
+    const contentLength = response.headers.get('content-length');
+    const totalSize = contentLength ? parseInt(contentLength, 10) : undefined;
+
+    // 检查文件大小
+    if (totalSize && totalSize > this.config.maxFileSize) {
+      throw new Error(`File size (${Math.round(totalSize / 1024 / 1024)}MB) exceeds limit (${Math.round(this.config.maxFileSize / 1024 / 1024)}MB)`);
+    }
+
+    // 读取响应数据
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('Unable to read response body');
+    }
+
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    let lastProgressTime = Date.now();
 
-      // 读取响应数据
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Unable to read response body');
+    // 读取数据流
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      watchdog.touch();
+      chunks.push(value);
+      loaded += value.length;
+
+      // 检查文件大小限制
+      if (loaded > this.config.maxFileSize) {
+        throw new Error(`File size exceeds limit during download`);
       }
 
-      const chunks: Uint8Array[] = [];
-      let loaded = 0;
-      const progressHistory: IDownloadProgress[] = [];
-      let lastProgressTime = Date.now();
+      // 记录进度
+      const now = Date.now();
+      if (now - lastProgressTime > 500) { // 每500ms更新一次进度
+        const progress: IDownloadProgress = {
+          percentage: totalSize ? (loaded / totalSize) * 100 : 0,
+          loaded,
+          total: totalSize || 0
+        };
+
+        result.progressHistory.push(progress);
+        this.config.onProgress?.(url, progress);
+        lastProgressTime = now;
+      }
+    }
 
-      // 读取数据流
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+    // 合并所有数据块
+    const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    const data = new Uint8Array(totalLength);
+    let offset = 0;
+    for (const chunk of chunks) {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    }
 
-        chunks.push(value);
-        loaded += value.length;
+    return {
+      data,
+      contentType: response.headers.get('content-type'),
+      // 重定向后的最终地址
+      finalUrl: response.url,
+      // 跨域请求只有服务器通过 Access-Control-Expose-Headers 暴露时才能读到
+      contentDisposition: response.headers.get('content-disposition')
+    };
+  }
 
-        // 检查文件大小限制
-        if (loaded > this.config.maxFileSize) {
-          throw new Error(`File size exceeds limit during download`);
-        }
+  /**
+   * 预检单个文件
+   * 只做URL校验、文件类型检查，并通过范围请求读取文件开头的少量字节，获取文件大小并核实文件类型
+   * 请求失败（如跨域限制）时文件大小和类型视为未知，不作为跳过依据
+   * @param url 文件URL
+   * @param scheduled 是否按主机调度；调用方已占用该主机的名额时传 false
+   * @returns 预检结果
+   */
+  async inspectFile(url: string, scheduled = true): Promise<IFileInspection> {
+    const normalizedUrl = UrlDetector.normalizeUrl(url);
+    if (!UrlDetector.isValidUrl(normalizedUrl)) {
+      return { url, allowed: false, fileName: UrlDetector.generateSafeFileName(url), reason: 'invalidUrl' };
+    }
 
-        // 记录进度
-        const now = Date.now();
-        if (now - lastProgressTime > 500) { // 每500ms更新一次进度
-          const progress: IDownloadProgress = {
-            percentage: totalSize ? (loaded / totalSize) * 100 : 0,
-            loaded,
-            total: totalSize || 0
-          };
-
-          progressHistory.push(progress);
-          this.config.onProgress?.(url, progress);
-          lastProgressTime = now;
+    const fileInfo = UrlDetector.extractFileInfo(normalizedUrl);
+    const fileName = fileInfo ? UrlDetector.generateSafeFileName(url, fileInfo.extension) :
+                                UrlDetector.generateSafeFileName(url);
+    const inspection: IFileInspection = { url, allowed: true, fileName };
+    if (fileInfo?.mimeType) {
+      inspection.mimeType = fileInfo.mimeType;
+    }
+
+    if (!this.isFileTypeAllowed(fileInfo)) {
+      return { ...inspection, allowed: false, reason: 'fileTypeNotAllowed' };
+    }
+
+    const abortController = new AbortController();
+
+    try {
+      // 与下载使用相同的超时控制：从真正发出请求开始计时，连续没有收到数据时同样中止
+      const fetchHead = async () => {
+        const watchdog = new RequestWatchdog(abortController, this.config);
+        try {
+          return await this.fetchFileHead(normalizedUrl, abortController.signal, watchdog);
+        } finally {
+          watchdog.dispose();
         }
+      };
+      const { response, bytes } = scheduled
+        ? await this.schedule(normalizedUrl, fetchHead, abortController.signal)
+        : await fetchHead();
+
+      const contentType = response.headers.get('content-type');
+      const fileSize = response.ok ? FileDownloader.getFileSize(response) : undefined;
+      if (fileSize !== undefined) {
+        inspection.fileSize = fileSize;
       }
 
-      // 合并所有数据块
-      const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-      const data = new Uint8Array(totalLength);
-      let offset = 0;
-      for (const chunk of chunks) {
-        data.set(chunk, offset);
-        offset += chunk.length;
+      // 服务器会原样保存 404 等错误页，同样需要识别
+      if (bytes && (response.ok || response.status === 404 || response.status === 410)) {
+        const verification = FileTypeSniffer.verify(bytes, contentType, UrlDetector.resolveFileName(normalizedUrl, {
+          finalUrl: response.url,
+          contentDisposition: response.headers.get('content-disposition'),
+          contentType
+        }));
+        if (verification.isWebPage) {
+          return { ...inspection, allowed: false, reason: 'webPage' };
+        }
+        if (response.ok) {
+          inspection.fileName = verification.fileName;
+          if (verification.mimeType) {
+            inspection.mimeType = verification.mimeType;
+          }
+        }
+        if (!this.isVerifiedTypeAllowed(verification)) {
+          return { ...inspection, allowed: false, reason: 'fileTypeNotAllowed' };
+        }
       }
+    } catch {
+      // 请求失败时无法得知文件大小和类型，保持允许状态
+    } finally {
+      abortController.abort();
+    }
 
-      // 生成文件名
-      const fileName = fileInfo ? UrlDetector.generateSafeFileName(url, fileInfo.extension) :
-                                  UrlDetector.generateSafeFileName(url);
+    if (inspection.fileSize !== undefined && inspection.fileSize > this.config.maxFileSize) {
+      return { ...inspection, allowed: false, reason: 'fileTooLarge' };
+    }
 
-      // 填充结果
-      result.success = true;
-      result.data = data.buffer;
-      if (fileInfo) {
-        result.fileInfo = fileInfo;
+    return inspection;
+  }
+
+  /**
+   * 请求文件开头的字节
+   * 使用范围请求；服务器不支持范围请求时返回整个文件，读够嗅探所需的字节后即停止读取
+   * @param normalizedUrl 清理后的URL
+   * @param signal 取消信号
+   * @param watchdog 超时监视器
+   * @returns 响应，以及文件开头的字节（没有响应内容时为 null）
+   */
+  private async fetchFileHead(
+    normalizedUrl: string,
+    signal: AbortSignal,
+    watchdog: RequestWatchdog
+  ): Promise<{ response: Response; bytes: Uint8Array | null }> {
+    const response = await fetch(normalizedUrl, {
+      method: 'GET',
+      signal,
+      headers: {
+        'Range': `bytes=0-${FileTypeSniffer.SNIFF_LENGTH - 1}`
       }
-      result.fileName = fileName;
-      result.fileSize = data.length;
-      result.mimeType = fileInfo?.mimeType || response.headers.get('content-type') || 'application/octet-stream';
-      result.progressHistory = progressHistory;
+    });
 
-    } catch (error) {
-      result.error = error instanceof Error ? error.message : 'Unknown error occurred';
+    watchdog.touch();
 
-      // 重试逻辑
-      if (retryCount < this.config.retryCount && this.shouldRetry(error)) {
-        this.config.onError?.(url, `Retrying (${retryCount + 1}/${this.config.retryCount}): ${result.error}`);
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return { response, bytes: null };
+    }
 
-        // 等待重试延迟
-        await this.delay(this.config.retryDelay * Math.pow(2, retryCount));
+    const bytes = new Uint8Array(FileTypeSniffer.SNIFF_LENGTH);
+    let loaded = 0;
+    try {
+      while (loaded < bytes.length) {
+        const { done, value } = await reader.read();
+        if (done) break;
 
-        return this.downloadFile(url, retryCount + 1);
+        watchdog.touch();
+        const chunk = value.subarray(0, bytes.length - loaded);
+        bytes.set(chunk, loaded);
+        loaded += chunk.length;
       }
     } finally {
-      // 清理
-      this.activeDownloads.delete(url);
-      result.duration = Date.now() - startTime;
+      reader.cancel().catch(() => {});
     }
 
-    return result;
+    return { response, bytes: bytes.subarray(0, loaded) };
+  }
+
+  /**
+   * 从响应头获取文件总大小
+   * 范围请求的响应从 Content-Range 中读取，否则使用 Content-Length
+   * @param response 响应
+   * @returns 文件大小 (字节)，无法确定时为空
+   */
+  private static getFileSize(response: Response): number | undefined {
+    if (response.status === 206) {
+      const total = /\/(\d+)\s*$/.exec(response.headers.get('content-range') ?? '')?.[1];
+      return total ? parseInt(total, 10) : undefined;
+    }
+
+    const contentLength = response.headers.get('content-length');
+    return contentLength ? parseInt(contentLength, 10) : undefined;
   }
 
   /**
@@ -279,19 +523,14 @@ export class FileDownloader {
   }
 
   /**
-   * 检查是否应该重试
-   * @param error 错误对象
-   * @returns 是否应该重试
+   * 通过调度器执行请求，未配置调度器时直接执行
+   * @param url 请求的URL
+   * @param task 请求任务
+   * @param signal 取消信号
+   * @returns 任务结果
    */
-  private shouldRetry(error: unknown): boolean {
-    if (error instanceof Error) {
-      // 网络错误或超时错误可以重试
-      return error.message.includes('fetch') ||
-             error.message.includes('timeout') ||
-             error.message.includes('network') ||
-             error.message.includes('Failed to fetch');
-    }
-    return false;
+  private schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return this.config.scheduler ? this.config.scheduler.schedule(url, task, signal) : task();
   }
 
   /**
@@ -322,9 +561,38 @@ export class FileDownloader {
       return false;
     }
 
-    // 检查是否在允许的文件类型中
+    return this.isExtensionAllowed(fileInfo.extension);
+  }
+
+  /**
+   * 按文件内容核实后再次检查文件类型
+   * 使用更正后的扩展名；URL没有扩展名时此时才能确定类型，内容是可执行文件时无论扩展名都不允许
+   * @param verification 核实结果
+   * @returns 是否允许
+   */
+  private isVerifiedTypeAllowed(verification: IFileTypeVerification): boolean {
+    if (this.config.allowAllFileTypes) {
+      return true;
+    }
+    if (verification.isDangerous) {
+      return false;
+    }
+
+    if (!verification.extension) {
+      // 内容无法识别且没有扩展名
+      return true;
+    }
+    return !DANGEROUS_FILE_EXTENSIONS.includes(verification.extension) && this.isExtensionAllowed(verification.extension);
+  }
+
+  /**
+   * 检查扩展名是否属于允许的文件类型
+   * @param extension 小写扩展名
+   * @returns 是否允许
+   */
+  private isExtensionAllowed(extension: string): boolean {
     for (const fileType of this.config.allowedFileTypes) {
-      if (FILE_TYPE_EXTENSIONS[fileType].includes(fileInfo.extension)) {
+      if (FILE_TYPE_EXTENSIONS[fileType].includes(extension)) {
         return true;
       }
     }
@@ -336,7 +604,7 @@ export class FileDownloader {
    * 取消所有下载
    */
   cancelAllDownloads(): void {
-    for (const [, controller] of this.activeDownloads) {
+    for (const controller of this.activeDownloads.keys()) {
       controller.abort();
     }
     this.activeDownloads.clear();
@@ -344,14 +612,15 @@ export class FileDownloader {
   }
 
   /**
-   * 取消特定URL的下载
+   * 取消特定URL的全部下载
    * @param url 要取消的URL
    */
   cancelDownload(url: string): void {
-    const controller = this.activeDownloads.get(url);
-    if (controller) {
-      controller.abort();
-      this.activeDownloads.delete(url);
+    for (const [controller, activeUrl] of this.activeDownloads) {
+      if (activeUrl === url) {
+        controller.abort();
+        this.activeDownloads.delete(controller);
+      }
     }
   }
 
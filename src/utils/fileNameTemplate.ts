@@ -0,0 +1,125 @@
+/**
+ * 附件文件名模板
+ * 按记录解析模板中的占位符生成附件文件名，例如 {field:SKU}_{index}.{ext} 生成 SKU-1234_1.jpg
+ */
+
+import { UrlDetector } from './urlDetector';
+
+/**
+ * 解析模板所需的记录信息
+ */
+export interface IFileNameTemplateContext {
+  /** 模板中引用的字段值，键为模板中写的字段名称或字段ID */
+  fields: Record<string, string>;
+  /** 记录ID */
+  recordId: string;
+  /** 链接在该记录目标附件字段中的序号，从1开始 */
+  index: number;
+  /** 原始URL */
+  url: string;
+  /** 原本要使用的文件名（服务器或URL提供的文件名，包含扩展名） */
+  originalName: string;
+}
+
+/**
+ * 文件名模板类
+ */
+export class FileNameTemplate {
+  // 支持的占位符
+  static readonly TOKENS = ['{field:Name}', '{recordId}', '{index}', '{host}', '{originalName}', '{ext}'];
+
+  private static readonly TOKEN_PATTERN = /\{(field:[^{}]+|recordId|index|host|originalName|ext)\}/g;
+
+  /**
+   * 获取模板中引用的字段
+   * @param template 文件名模板
+   * @returns 字段名称或字段ID
+   */
+  static getFieldReferences(template: string): string[] {
+    const references = new Set<string>();
+    for (const match of template.matchAll(this.TOKEN_PATTERN)) {
+      const token = match[1]!;
+      if (token.startsWith('field:')) {
+        references.add(token.slice('field:'.length).trim());
+      }
+    }
+    return Array.from(references);
+  }
+
+  /**
+   * 按记录解析模板生成文件名，解析结果为空时使用原文件名
+   * @param template 文件名模板
+   * @param context 记录信息
+   * @returns 文件名
+   */
+  static render(template: string, context: IFileNameTemplateContext): string {
+    const { name, ext } = this.splitExtension(context.originalName);
+
+    const rendered = template.replace(this.TOKEN_PATTERN, (_, token: string) => {
+      if (token.startsWith('field:')) {
+        return context.fields[token.slice('field:'.length).trim()] ?? '';
+      }
+      switch (token) {
+        case 'recordId':
+          return context.recordId;
+        case 'index':
+          return String(context.index);
+        case 'host':
+          return UrlDetector.getDomain(context.url) ?? '';
+        case 'originalName':
+          return name;
+        case 'ext':
+          return ext;
+        default:
+          return '';
+      }
+    });
+
+    // 空字段值可能留下多余的分隔符，如 "_1.jpg" 或 "SKU-.jpg"
+    const fileName = UrlDetector.sanitizeFileName(rendered
+      .replace(/[\s_-]+(?=\.[^.]*$)/, '')
+      .replace(/^[\s._-]+|[\s._-]+$/g, ''));
+    if (!fileName || fileName === ext) {
+      return context.originalName;
+    }
+
+    // 模板中没有 {ext} 时保留原扩展名
+    if (ext && !template.includes('{ext}') && !fileName.toLowerCase().endsWith(`.${ext.toLowerCase()}`)) {
+      return `${fileName}.${ext}`;
+    }
+    return fileName;
+  }
+
+  /**
+   * 将单元格值转换为文件名中使用的文本
+   * @param value 单元格值
+   * @returns 文本
+   */
+  static cellValueToString(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.cellValueToString(item)).filter(Boolean).join(',');
+    }
+    if (typeof value === 'object') {
+      // 关联、用户、附件等字段的单元格值是对象
+      const { title, name } = value as { title?: unknown; name?: unknown };
+      return typeof title === 'string' ? title : typeof name === 'string' ? name : '';
+    }
+    return String(value);
+  }
+
+  /**
+   * 拆分文件名和扩展名
+   * @param fileName 文件名
+   * @returns 不含扩展名的文件名和扩展名（不含点）
+   */
+  private static splitExtension(fileName: string): { name: string; ext: string } {
+    const lastDotIndex = fileName.lastIndexOf('.');
+    if (lastDotIndex <= 0) {
+      return { name: fileName, ext: '' };
+    }
+    return { name: fileName.substring(0, lastDotIndex), ext: fileName.substring(lastDotIndex + 1) };
+  }
+}
@@ -0,0 +1,285 @@
+/**
+ * 文件类型嗅探
+ * 根据文件开头的字节（魔数）和 Content-Type 判断文件的真实类型：
+ * 识别伪装成文件的网页（登录页、404 错误页），并在URL扩展名与文件内容不符时更正扩展名
+ */
+
+import { UrlDetector } from './urlDetector';
+import { DANGEROUS_FILE_EXTENSIONS } from '../components/link-converter/types';
+
+/**
+ * 识别出的文件类型
+ */
+export interface ISniffedFileType {
+  /** 扩展名 */
+  extension: string;
+  /** MIME类型 */
+  mimeType: string;
+  /** 内容格式相同、无需更正的扩展名（如 docx 本身就是 zip） */
+  compatibleExtensions: string[];
+}
+
+/**
+ * 嗅探结果
+ */
+export interface IFileTypeVerification {
+  /** 响应是网页而不是文件 */
+  isWebPage: boolean;
+  /** 识别出的文件类型，无法识别时为 null */
+  fileType: ISniffedFileType | null;
+  /** 更正扩展名后的文件名 */
+  fileName: string;
+  /** 更正后文件名的小写扩展名，没有扩展名时为空字符串 */
+  extension: string;
+  /** 与更正后的文件名相符的MIME类型，无法确定时为 null */
+  mimeType: string | null;
+  /** 内容是可执行文件等危险类型（无论文件名的扩展名是什么） */
+  isDangerous: boolean;
+}
+
+/**
+ * 文件签名
+ */
+interface IFileSignature {
+  /** 签名字节，null 表示该位置可以是任意字节 */
+  bytes: Array<number | null>;
+  /** 签名开始的位置 */
+  offset?: number;
+  /** 识别出的文件类型 */
+  type: ISniffedFileType;
+}
+
+/**
+ * 生成文件签名
+ * @param signature 签名字节，字符串按 ASCII 转换
+ * @param extension 扩展名
+ * @param mimeType MIME类型
+ * @param compatibleExtensions 其他兼容的扩展名
+ * @param offset 签名开始的位置
+ * @returns 文件签名
+ */
+function signature(
+  signature: string | Array<number | null>,
+  extension: string,
+  mimeType: string,
+  compatibleExtensions: string[] = [],
+  offset = 0
+): IFileSignature {
+  return {
+    bytes: typeof signature === 'string' ? Array.from(signature, char => char.charCodeAt(0)) : signature,
+    offset,
+    type: { extension, mimeType, compatibleExtensions: [extension, ...compatibleExtensions] }
+  };
+}
+
+// 网页开头常见的标签
+const HTML_PATTERN = /^(?:<!--[\s\S]*?-->\s*)*<(?:!doctype\s+html|html|head|body|meta|title|script)[\s>/]/i;
+
+// 网页的 Content-Type
+const HTML_CONTENT_TYPE_PATTERN = /^\s*(?:text\/html|application\/xhtml\+xml)\s*(?:;|$)/i;
+
+/**
+ * 文件类型嗅探器类
+ */
+export class FileTypeSniffer {
+  // 嗅探需要读取的字节数
+  static readonly SNIFF_LENGTH = 4096;
+
+  // 按顺序匹配，更具体的签名放在前面
+  private static readonly SIGNATURES: IFileSignature[] = [
+    // 图片
+    signature([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], 'png', 'image/png'),
+    signature([0xff, 0xd8, 0xff], 'jpg', 'image/jpeg', ['jpeg', 'jfif']),
+    signature('GIF8', 'gif', 'image/gif'),
+    signature('WEBP', 'webp', 'image/webp', [], 8),
+    // BMP 文件头中第 6-9 字节是保留字段，固定为 0
+    signature([0x42, 0x4d, null, null, null, null, 0x00, 0x00, 0x00, 0x00], 'bmp', 'image/bmp'),
+    signature([0x00, 0x00, 0x01, 0x00], 'ico', 'image/x-icon'),
+    signature([0x49, 0x49, 0x2a, 0x00], 'tiff', 'image/tiff', ['tif']),
+    signature([0x4d, 0x4d, 0x00, 0x2a], 'tiff', 'image/tiff', ['tif']),
+
+    // 文档
+    signature('%PDF-', 'pdf', 'application/pdf'),
+    signature('{\\rtf', 'rtf', 'application/rtf'),
+    // Office 97-2003 文档都是 OLE 复合文档
+    signature([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1], 'doc', 'application/msword', ['xls', 'ppt', 'msg']),
+
+    // 音视频
+    signature('WAVE', 'wav', 'audio/wav', [], 8),
+    signature('AVI ', 'avi', 'video/x-msvideo', [], 8),
+    signature('ID3', 'mp3', 'audio/mpeg'),
+    signature([0xff, 0xfb], 'mp3', 'audio/mpeg'),
+    signature([0xff, 0xf3], 'mp3', 'audio/mpeg'),
+    signature([0xff, 0xf2], 'mp3', 'audio/mpeg'),
+    signature('M4A ', 'm4a', 'audio/mp4', ['mp4'], 8),
+    signature('qt  ', 'mov', 'video/quicktime', ['mp4'], 8),
+    signature('ftyp', 'mp4', 'video/mp4', ['m4v', 'm4a', 'mov', '3gp', 'heic', 'heif', 'avif'], 4),
+    signature([0x1a, 0x45, 0xdf, 0xa3], 'mkv', 'video/x-matroska', ['webm', 'mka']),
+    signature('FLV', 'flv', 'video/x-flv'),
+    signature('OggS', 'ogg', 'audio/ogg', ['oga', 'ogv', 'opus']),
+    signature('fLaC', 'flac', 'audio/flac'),
+
+    // 压缩包，Office 2007 以后的文档和 OpenDocument 文档都是 zip
+    signature([0x50, 0x4b, 0x03, 0x04], 'zip', 'application/zip', ['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub']),
+    signature([0x50, 0x4b, 0x05, 0x06], 'zip', 'application/zip', ['docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub']),
+    signature('Rar!', 'rar', 'application/x-rar-compressed'),
+    signature([0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], '7z', 'application/x-7z-compressed'),
+    signature([0x1f, 0x8b], 'gz', 'application/gzip', ['tgz']),
+    signature('BZh', 'bz2', 'application/x-bzip2'),
+    signature([0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], 'xz', 'application/x-xz'),
+    signature('ustar', 'tar', 'application/x-tar', [], 257),
+
+    // 可执行文件
+    signature('MZ', 'exe', 'application/x-msdownload', ['dll', 'msi', 'com', 'scr'])
+  ];
+
+  // 能够通过签名识别的扩展名，只有这些扩展名与内容不符时才更正
+  private static readonly KNOWN_EXTENSIONS = new Set(
+    FileTypeSniffer.SIGNATURES.flatMap(item => item.type.compatibleExtensions).concat('svg')
+  );
+
+  private static readonly SVG_TYPE: ISniffedFileType = {
+    extension: 'svg',
+    mimeType: 'image/svg+xml',
+    compatibleExtensions: ['svg']
+  };
+
+  /**
+   * 根据文件开头的字节识别文件类型
+   * @param bytes 文件开头的字节
+   * @returns 文件类型，无法识别时为 null
+   */
+  static detect(bytes: Uint8Array): ISniffedFileType | null {
+    const matched = this.SIGNATURES.find(({ bytes: expected, offset = 0 }) =>
+      bytes.length >= offset + expected.length &&
+      expected.every((byte, index) => byte === null || bytes[offset + index] === byte)
+    );
+    if (matched) {
+      return matched.type;
+    }
+
+    // SVG 是文本格式，只能查找 <svg 标签；网页中内嵌的 SVG 图标不算
+    return !this.isHtml(bytes) && /<svg[\s>]/i.test(this.decodeText(bytes).slice(0, 1024)) ? this.SVG_TYPE : null;
+  }
+
+  /**
+   * 检查内容是否为 HTML 网页
+   * @param bytes 文件开头的字节
+   * @returns 是否为网页
+   */
+  static isHtml(bytes: Uint8Array): boolean {
+    return HTML_PATTERN.test(this.decodeText(bytes).trimStart());
+  }
+
+  /**
+   * 检查 Content-Type 或MIME类型是否为网页
+   * @param contentType Content-Type 或MIME类型
+   * @returns 是否为网页
+   */
+  static isHtmlMimeType(contentType: string | null | undefined): boolean {
+    return HTML_CONTENT_TYPE_PATTERN.test(contentType ?? '');
+  }
+
+  /**
+   * 检查文件名是否为网页文件
+   * @param fileName 文件名
+   * @returns 扩展名是否为 html/htm
+   */
+  static isHtmlFileName(fileName: string): boolean {
+    const extension = this.getExtension(fileName);
+    return extension === 'html' || extension === 'htm';
+  }
+
+  /**
+   * 根据MIME类型查找可识别的文件类型，用于无法读取文件内容时（如由服务器下载的文件）
+   * @param mimeType MIME类型
+   * @returns 文件类型，无法识别时为 null
+   */
+  static fromMimeType(mimeType: string | null | undefined): ISniffedFileType | null {
+    const normalized = mimeType?.split(';')[0]?.trim().toLowerCase();
+    if (!normalized) return null;
+    if (normalized === this.SVG_TYPE.mimeType) return this.SVG_TYPE;
+
+    return this.SIGNATURES.find(item => item.type.mimeType === normalized)?.type ?? null;
+  }
+
+  /**
+   * 结合文件内容和 Content-Type 核实文件类型
+   * 内容是网页、或服务器声明为网页且内容不是任何已知的二进制格式时视为网页，文件名本身是 .html/.htm 时除外
+   * @param bytes 文件开头的字节
+   * @param contentType 响应的 Content-Type
+   * @param fileName 根据URL和响应头确定的文件名
+   * @returns 核实结果
+   */
+  static verify(bytes: Uint8Array, contentType: string | null, fileName: string): IFileTypeVerification {
+    const fileType = this.detect(bytes);
+    const extension = this.getExtension(fileName);
+
+    const declaredHtml = this.isHtmlMimeType(contentType);
+    const looksLikeHtml = fileType === null && (this.isHtml(bytes) || (declaredHtml && !this.isBinary(bytes)));
+    if (looksLikeHtml && !this.isHtmlFileName(fileName)) {
+      return { isWebPage: true, fileType: null, fileName, extension, mimeType: null, isDangerous: false };
+    }
+
+    const correctedName = this.correctExtension(fileName, fileType);
+    const correctedExtension = this.getExtension(correctedName);
+    // docx 等兼容格式使用扩展名对应的MIME类型，而不是 application/zip
+    const extensionMimeType = UrlDetector.inferMimeType(correctedExtension);
+    return {
+      isWebPage: false,
+      fileType,
+      fileName: correctedName,
+      extension: correctedExtension,
+      mimeType: extensionMimeType !== 'application/octet-stream' ? extensionMimeType : fileType?.mimeType ?? null,
+      isDangerous: fileType !== null && DANGEROUS_FILE_EXTENSIONS.includes(fileType.extension)
+    };
+  }
+
+  /**
+   * 文件名的扩展名与识别出的类型不符时更正扩展名
+   * 只更正能通过签名识别的扩展名，避免把 apk 之类基于 zip 的格式改成 zip
+   * @param fileName 文件名
+   * @param fileType 识别出的文件类型
+   * @returns 文件名
+   */
+  static correctExtension(fileName: string, fileType: ISniffedFileType | null): string {
+    if (!fileType) return fileName;
+
+    const extension = this.getExtension(fileName);
+    if (extension && (!this.KNOWN_EXTENSIONS.has(extension) || fileType.compatibleExtensions.includes(extension))) {
+      return fileName;
+    }
+
+    const baseName = extension ? fileName.slice(0, fileName.length - extension.length - 1) : fileName;
+    return `${baseName}.${fileType.extension}`;
+  }
+
+  /**
+   * 检查内容是否包含文本中不会出现的控制字符
+   * @param bytes 文件开头的字节
+   * @returns 是否为二进制内容
+   */
+  private static isBinary(bytes: Uint8Array): boolean {
+    return bytes.some(byte => byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b));
+  }
+
+  /**
+   * 按 UTF-8 解码内容，TextDecoder 会去掉开头的 BOM
+   * @param bytes 文件开头的字节
+   * @returns 文本
+   */
+  private static decodeText(bytes: Uint8Array): string {
+    return new TextDecoder('utf-8').decode(bytes.subarray(0, this.SNIFF_LENGTH));
+  }
+
+  /**
+   * 获取文件名的扩展名
+   * @param fileName 文件名
+   * @returns 小写扩展名，没有扩展名时为空字符串
+   */
+  private static getExtension(fileName: string): string {
+    const lastDotIndex = fileName.lastIndexOf('.');
+    return lastDotIndex > 0 ? fileName.substring(lastDotIndex + 1).toLowerCase() : '';
+  }
+}
+
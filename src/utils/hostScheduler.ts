@@ -0,0 +1,197 @@
+/**
+ * 按主机的请求调度器
+ * 浏览器下载和服务器获取共用同一个调度器，对同一主机的请求限制并发数和每秒请求数，
+ * 不同主机之间互不影响，避免批量转换时被同一个 CDN 或供应商门户限流、封禁
+ */
+
+import { RequestError } from './retryPolicy';
+import { IHostLimit, IHostLimitConfig, DEFAULT_HOST_LIMITS } from '../components/link-converter/types';
+
+/**
+ * 排队中的请求
+ */
+interface IScheduledTask {
+  start: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * 单个主机的调度状态
+ */
+interface IHostState {
+  limit: IHostLimit;
+  active: number;
+  /** 下一个请求最早可以开始的时间 */
+  nextStartAt: number;
+  queue: IScheduledTask[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * 主机调度器类
+ */
+export class HostScheduler {
+  private config: IHostLimitConfig;
+  private hosts = new Map<string, IHostState>();
+
+  constructor(config: IHostLimitConfig = DEFAULT_HOST_LIMITS) {
+    this.config = config;
+  }
+
+  /**
+   * 按URL所在主机的限制执行请求
+   * 请求在排队期间被取消时直接拒绝，不会占用主机的并发名额
+   * @param url 请求的URL
+   * @param task 请求任务，并发名额在任务完成前一直占用
+   * @param signal 取消信号
+   * @returns 任务结果
+   */
+  schedule<T>(url: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const host = HostScheduler.getHost(url);
+    const state = this.getHostState(host);
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new RequestError('Request was cancelled', 'cancelled'));
+        return;
+      }
+
+      // 排队期间被取消时立即移出队列，不必等到轮到该请求
+      const onAbort = () => {
+        const index = state.queue.indexOf(scheduledTask);
+        if (index !== -1) {
+          state.queue.splice(index, 1);
+          reject(new RequestError('Request was cancelled', 'cancelled'));
+        }
+      };
+
+      const scheduledTask: IScheduledTask = {
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          task().then(resolve, reject).finally(() => {
+            state.active--;
+            this.pump(state);
+          });
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      if (signal) {
+        scheduledTask.signal = signal;
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+
+      state.queue.push(scheduledTask);
+      this.pump(state);
+    });
+  }
+
+  /**
+   * 获取主机适用的限制，按顺序匹配第一个覆盖规则
+   * @param host 主机名
+   * @returns 请求限制
+   */
+  getLimit(host: string): IHostLimit {
+    const override = this.config.overrides.find(item => HostScheduler.matchesPattern(host, item.pattern));
+    const limit = override ?? this.config;
+    return {
+      maxConcurrency: Math.max(0, limit.maxConcurrency),
+      requestsPerSecond: Math.max(0, limit.requestsPerSecond)
+    };
+  }
+
+  /**
+   * 取消所有排队中的请求
+   */
+  clear(): void {
+    this.hosts.forEach((state) => {
+      if (state.timer) {
+        clearTimeout(state.timer);
+        state.timer = null;
+      }
+      state.queue.splice(0).forEach(task => task.reject(new RequestError('Request was cancelled', 'cancelled')));
+    });
+  }
+
+  /**
+   * 在并发和频率允许的范围内启动排队中的请求
+   * @param state 主机调度状态
+   */
+  private pump(state: IHostState): void {
+    while (state.queue.length > 0 && (state.limit.maxConcurrency === 0 || state.active < state.limit.maxConcurrency)) {
+      const now = Date.now();
+      if (now < state.nextStartAt) {
+        // 频率限制：等到下一个可用时间点再启动
+        if (!state.timer) {
+          state.timer = setTimeout(() => {
+            state.timer = null;
+            this.pump(state);
+          }, state.nextStartAt - now);
+        }
+        return;
+      }
+
+      const task = state.queue.shift()!;
+      if (task.signal?.aborted) {
+        task.reject(new RequestError('Request was cancelled', 'cancelled'));
+        continue;
+      }
+
+      state.active++;
+      if (state.limit.requestsPerSecond > 0) {
+        state.nextStartAt = now + 1000 / state.limit.requestsPerSecond;
+      }
+      task.start();
+    }
+  }
+
+  /**
+   * 获取或创建主机的调度状态
+   * @param host 主机名
+   * @returns 调度状态
+   */
+  private getHostState(host: string): IHostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { limit: this.getLimit(host), active: 0, nextStartAt: 0, queue: [], timer: null };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * 从URL中获取主机名，无法解析时整个URL作为一个主机
+   * @param url URL
+   * @returns 主机名（小写）
+   */
+  static getHost(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase();
+    } catch {
+      return url;
+    }
+  }
+
+  /**
+   * 检查主机是否匹配模式；* 匹配任意字符，*.example.com 同时匹配 example.com 本身
+   * @param host 主机名
+   * @param pattern 主机模式
+   * @returns 是否匹配
+   */
+  static matchesPattern(host: string, pattern: string): boolean {
+    const normalizedPattern = pattern.trim().toLowerCase();
+    if (!normalizedPattern) return false;
+
+    if (normalizedPattern.startsWith('*.') && host === normalizedPattern.slice(2)) {
+      return true;
+    }
+
+    const regex = new RegExp(
+      `^${normalizedPattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`
+    );
+    return regex.test(host);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * 插件实例 storage
+ * 数据保存在插件安装实例的 storage 中，同一插件实例的所有协作者都能看到
+ * 插件安装位置（仪表盘 / 面板 / 视图 / 右键菜单）不同，读写 storage 的接口也不同
+ */
+
+import {
+  PluginPosition,
+  getDashboardInstallPlugin,
+  updateDashboardPluginStorage,
+  getPluginPanelPlugin,
+  updatePluginPanelStorage,
+  getViewInstallPlugin,
+  updateViewPluginStorage,
+  getPluginContextMenuStorage,
+  updatePluginContextMenuStorage
+} from '@teable/openapi';
+import type { IUrlParams } from '../types';
+
+/**
+ * 插件实例的定位参数
+ */
+export type IPluginStorageLocation = Pick<IUrlParams, 'baseId' | 'pluginInstallId' | 'positionId' | 'positionType' | 'tableId'>;
+
+/**
+ * 插件实例 storage 类
+ */
+export class PluginStorage {
+  private static readonly LOCAL_KEY_PREFIX = 'link-converter:storage';
+  // storage 只能整体覆盖写入，本客户端内的 读取 → 修改 → 写入 依次执行，避免不同键的写入互相覆盖
+  private static writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * 读取插件实例的 storage
+   * @param location 插件实例的定位参数
+   * @returns storage，插件实例不存在时返回 null
+   */
+  static async read(location: Partial<IPluginStorageLocation>): Promise<Record<string, unknown> | null> {
+    const { baseId, pluginInstallId, positionId, positionType, tableId } = location;
+    if (!pluginInstallId) return null;
+
+    switch (positionType) {
+      case PluginPosition.Dashboard:
+        if (!baseId || !positionId) return null;
+        return (await getDashboardInstallPlugin(baseId, positionId, pluginInstallId)).data.storage ?? {};
+      case PluginPosition.Panel:
+        if (!tableId || !positionId) return null;
+        return (await getPluginPanelPlugin(tableId, positionId, pluginInstallId)).data.storage ?? {};
+      case PluginPosition.View:
+        if (!tableId || !positionId) return null;
+        return (await getViewInstallPlugin(tableId, positionId)).data.storage ?? {};
+      case PluginPosition.ContextMenu:
+        if (!tableId) return null;
+        return (await getPluginContextMenuStorage(tableId, pluginInstallId)).data.storage;
+      default:
+        return this.readLocalStorage(pluginInstallId);
+    }
+  }
+
+  /**
+   * 修改插件实例的 storage
+   * 读取最新的 storage 后交给 updater 修改再整体写回，updater 需要保留其他键
+   * @param location 插件实例的定位参数
+   * @param updater 根据当前 storage 生成新的 storage
+   */
+  static update(
+    location: Partial<IPluginStorageLocation>,
+    updater: (storage: Record<string, unknown>) => Record<string, unknown>
+  ): Promise<void> {
+    const task = this.writeQueue.then(async () => {
+      const storage = await this.read(location) ?? {};
+      await this.write(location, updater(storage));
+    });
+    this.writeQueue = task.catch(() => undefined);
+    return task;
+  }
+
+  /**
+   * 写入插件实例的 storage
+   * @param location 插件实例的定位参数
+   * @param storage 完整的 storage
+   */
+  private static async write(location: Partial<IPluginStorageLocation>, storage: Record<string, unknown>): Promise<void> {
+    const { baseId, pluginInstallId, positionId, positionType, tableId } = location;
+    if (!pluginInstallId) return;
+
+    switch (positionType) {
+      case PluginPosition.Dashboard:
+        if (baseId && positionId) await updateDashboardPluginStorage(baseId, positionId, pluginInstallId, storage);
+        return;
+      case PluginPosition.Panel:
+        if (tableId && positionId) await updatePluginPanelStorage(tableId, positionId, pluginInstallId, { storage });
+        return;
+      case PluginPosition.View:
+        if (tableId && positionId) await updateViewPluginStorage(tableId, positionId, pluginInstallId, storage);
+        return;
+      case PluginPosition.ContextMenu:
+        if (tableId) await updatePluginContextMenuStorage(tableId, pluginInstallId, { storage });
+        return;
+      default:
+        this.writeLocalStorage(pluginInstallId, storage);
+    }
+  }
+
+  /**
+   * 无法确定插件位置时（如本地开发）退回到 localStorage
+   * @param pluginInstallId 插件实例ID
+   * @returns storage
+   */
+  private static readLocalStorage(pluginInstallId: string): Record<string, unknown> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+      const raw = window.localStorage.getItem(`${this.LOCAL_KEY_PREFIX}:${pluginInstallId}`);
+      return raw ? JSON.parse(raw) as Record<string, unknown> : {};
+    } catch (error) {
+      console.error('Failed to load plugin storage:', error);
+      return {};
+    }
+  }
+
+  /**
+   * 写入 localStorage
+   * @param pluginInstallId 插件实例ID
+   * @param storage storage
+   */
+  private static writeLocalStorage(pluginInstallId: string, storage: Record<string, unknown>): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.setItem(`${this.LOCAL_KEY_PREFIX}:${pluginInstallId}`, JSON.stringify(storage));
+    } catch (error) {
+      console.error('Failed to save plugin storage:', error);
+    }
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * 记录变更监听
+ * 定时轮询视图中 URL 字段的内容，与上一次的快照比较，找出新增了链接的新建或编辑的记录
+ * 只比较 URL 字段，转换写入附件字段不会再次触发监听
+ */
+
+import * as openApi from '@teable/openapi';
+import { FieldKeyType } from '@teable/core';
+import { UrlDetector } from './urlDetector';
+import { IFieldMapping } from '../components/link-converter/types';
+
+/**
+ * 监听配置
+ */
+export interface IRecordWatcherConfig {
+  /** 表格ID */
+  tableId: string;
+  /** 视图ID */
+  viewId: string;
+  /** 字段映射 */
+  mappings: IFieldMapping[];
+  /** 轮询间隔 (毫秒) */
+  interval: number;
+  /** 发现新增了链接的记录时的回调，处理完成后才会开始下一次轮询 */
+  onRecordsChanged: (recordIds: string[]) => Promise<void>;
+  /** 轮询出错时的回调，出错后继续轮询 */
+  onError?: (error: string) => void;
+}
+
+/**
+ * 记录变更监听类
+ */
+export class RecordWatcher {
+  private static readonly PAGE_SIZE = 100;
+
+  private config: IRecordWatcherConfig;
+  // 记录ID|URL字段ID -> 上一次轮询时单元格中的链接
+  private snapshot = new Map<string, Set<string>>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isRunning = false;
+
+  constructor(config: IRecordWatcherConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 开始监听
+   * 先记录当前内容作为基线，开始监听前已有的链接不会被转换
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) return;
+
+    this.isRunning = true;
+    this.snapshot = await this.takeSnapshot();
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * 停止监听，正在进行的转换会执行完毕
+   */
+  stop(): void {
+    this.isRunning = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * 检查是否正在监听
+   * @returns 是否正在监听
+   */
+  isWatching(): boolean {
+    return this.isRunning;
+  }
+
+  /**
+   * 安排下一次轮询；使用 setTimeout 而不是 setInterval，保证上一次转换完成后才会再次轮询
+   */
+  private scheduleNextPoll(): void {
+    if (!this.isRunning) return;
+    this.timer = setTimeout(() => void this.poll(), this.config.interval);
+  }
+
+  /**
+   * 轮询一次：比较快照，转换新增了链接的记录
+   */
+  private async poll(): Promise<void> {
+    try {
+      const current = await this.takeSnapshot();
+      if (!this.isRunning) return;
+
+      const changedRecordIds = new Set<string>();
+      current.forEach((urls, key) => {
+        const previousUrls = this.snapshot.get(key);
+        const [recordId = ''] = key.split('|');
+
+        for (const url of urls) {
+          if (!previousUrls?.has(url)) {
+            changedRecordIds.add(recordId);
+            break;
+          }
+        }
+      });
+
+      // 先更新快照，转换失败的链接不会在下一次轮询中反复重试
+      this.snapshot = current;
+
+      if (changedRecordIds.size > 0) {
+        await this.config.onRecordsChanged(Array.from(changedRecordIds));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown watch error';
+      console.error('Record watch error:', error);
+      this.config.onError?.(errorMessage);
+    } finally {
+      this.scheduleNextPoll();
+    }
+  }
+
+  /**
+   * 读取视图中全部记录的 URL 字段内容
+   * @returns 记录ID|URL字段ID -> 单元格中的链接
+   */
+  private async takeSnapshot(): Promise<Map<string, Set<string>>> {
+    const { tableId, viewId, mappings } = this.config;
+    const urlFieldIds = Array.from(new Set(mappings.map(mapping => mapping.urlFieldId)));
+    const snapshot = new Map<string, Set<string>>();
+
+    let skip = 0;
+    while (true) {
+      const { data } = await openApi.getRecords(tableId, {
+        viewId,
+        skip,
+        take: RecordWatcher.PAGE_SIZE,
+        fieldKeyType: FieldKeyType.Id,
+        projection: urlFieldIds
+      });
+
+      for (const record of data.records) {
+        for (const urlFieldId of urlFieldIds) {
+          // 与扫描使用相同的链接识别规则
+          const urls = UrlDetector.extractUrls(record.fields[urlFieldId] as string).map(match => match.cleanedUrl);
+          if (urls.length > 0) {
+            snapshot.set(`${record.id}|${urlFieldId}`, new Set(urls));
+          }
+        }
+      }
+
+      if (data.records.length < RecordWatcher.PAGE_SIZE) break;
+      skip += RecordWatcher.PAGE_SIZE;
+    }
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * 请求超时控制
+ * 同时限制请求的总时长和停滞时长（连续一段时间没有收到或发出任何数据），
+ * 超时后中止请求并以超时错误结束，避免卡住的连接一直占用并发名额
+ */
+
+import { RequestError } from './retryPolicy';
+
+/**
+ * 超时类型
+ */
+export type RequestTimeoutPhase = 'total' | 'stall';
+
+/**
+ * 请求超时错误，错误类别固定为 timeout
+ */
+export class RequestTimeoutError extends RequestError {
+  /** 超时类型：总时长超时或停滞超时 */
+  readonly phase: RequestTimeoutPhase;
+
+  constructor(phase: RequestTimeoutPhase, ms: number) {
+    super(
+      phase === 'total'
+        ? `Request timed out after ${Math.round(ms / 1000)}s`
+        : `Request stalled: no data transferred for ${Math.round(ms / 1000)}s`,
+      'timeout'
+    );
+    this.name = 'RequestTimeoutError';
+    this.phase = phase;
+  }
+}
+
+/**
+ * 超时配置
+ */
+export interface IRequestTimeoutConfig {
+  /** 总超时时间 (毫秒)，0 表示不限制 */
+  timeout: number;
+  /** 停滞超时时间 (毫秒)，0 表示不限制 */
+  stallTimeout?: number;
+}
+
+/**
+ * 请求超时监视器
+ * 创建后立即开始计时，传输数据时调用 touch() 重置停滞计时，请求结束后调用 dispose()
+ */
+export class RequestWatchdog {
+  private abortController: AbortController;
+  private config: IRequestTimeoutConfig;
+  private totalTimer: ReturnType<typeof setTimeout> | null = null;
+  private stallTimer: ReturnType<typeof setTimeout> | null = null;
+  private timeoutError: RequestTimeoutError | null = null;
+
+  constructor(abortController: AbortController, config: IRequestTimeoutConfig) {
+    this.abortController = abortController;
+    this.config = config;
+
+    if (config.timeout > 0) {
+      this.totalTimer = setTimeout(() => this.fire('total', config.timeout), config.timeout);
+    }
+    this.touch();
+  }
+
+  /**
+   * 传输了数据，重新开始停滞计时
+   */
+  touch(): void {
+    const { stallTimeout } = this.config;
+    if (!stallTimeout || this.timeoutError) return;
+
+    if (this.stallTimer) {
+      clearTimeout(this.stallTimer);
+    }
+    this.stallTimer = setTimeout(() => this.fire('stall', stallTimeout), stallTimeout);
+  }
+
+  /**
+   * 停止停滞计时，只保留总时长限制
+   * 用于数据已发送完、等待服务器处理的阶段
+   */
+  stopStallTimer(): void {
+    if (this.stallTimer) {
+      clearTimeout(this.stallTimer);
+      this.stallTimer = null;
+    }
+  }
+
+  /**
+   * 获取超时错误
+   * @returns 请求已超时时返回超时错误，否则为 null
+   */
+  getTimeoutError(): RequestTimeoutError | null {
+    return this.timeoutError;
+  }
+
+  /**
+   * 将请求抛出的错误转换为超时错误；不是由超时引起时原样返回
+   * @param error 请求抛出的错误
+   * @returns 错误
+   */
+  wrapError(error: unknown): unknown {
+    return this.timeoutError ?? error;
+  }
+
+  /**
+   * 停止计时
+   */
+  dispose(): void {
+    if (this.totalTimer) {
+      clearTimeout(this.totalTimer);
+      this.totalTimer = null;
+    }
+    this.stopStallTimer();
+  }
+
+  /**
+   * 超时：记录错误并中止请求
+   * @param phase 超时类型
+   * @param ms 超时时间
+   */
+  private fire(phase: RequestTimeoutPhase, ms: number): void {
+    if (this.timeoutError) return;
+
+    this.timeoutError = new RequestTimeoutError(phase, ms);
+    this.dispose();
+    this.abortController.abort();
+  }
+}
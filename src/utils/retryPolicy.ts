@@ -0,0 +1,205 @@
+/**
+ * 重试策略
+ * 将下载、上传中的错误归类为带 HTTP 状态码的请求错误，按错误类别决定是否重试及等待时间：
+ * 遵守服务器返回的 Retry-After，退避时间加入随机抖动，避免大量请求同时重试
+ */
+
+/**
+ * 请求错误类别
+ */
+export type RequestErrorKind =
+  | 'network'      // 网络错误，未收到响应
+  | 'timeout'      // 请求超时（包括 HTTP 408）
+  | 'rateLimited'  // 请求过于频繁 (HTTP 429)
+  | 'serverError'  // 服务器错误 (HTTP 5xx)
+  | 'clientError'  // 请求本身有误 (HTTP 4xx)，重试不会成功
+  | 'cancelled'    // 请求被取消
+  | 'other';       // 文件过大、类型不允许等非请求错误
+
+/**
+ * 带类别和 HTTP 状态码的请求错误
+ */
+export class RequestError extends Error {
+  /** 错误类别 */
+  readonly kind: RequestErrorKind;
+  /** HTTP 状态码，未收到响应时为空 */
+  readonly status: number | undefined;
+  /** 服务器要求的最短重试等待时间 (毫秒) */
+  readonly retryAfter: number | undefined;
+
+  constructor(message: string, kind: RequestErrorKind, status?: number, retryAfter?: number) {
+    super(message);
+    this.name = 'RequestError';
+    this.kind = kind;
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+
+  /**
+   * 根据 HTTP 响应创建错误
+   * @param status HTTP 状态码
+   * @param statusText 状态描述
+   * @param retryAfterHeader Retry-After 响应头
+   * @returns 请求错误
+   */
+  static fromResponse(status: number, statusText: string, retryAfterHeader?: string | null): RequestError {
+    return new RequestError(
+      `HTTP ${status}: ${statusText}`,
+      RequestError.getKindForStatus(status),
+      status,
+      RequestError.parseRetryAfter(retryAfterHeader)
+    );
+  }
+
+  /**
+   * 根据 HTTP 状态码判断错误类别
+   * @param status HTTP 状态码
+   * @returns 错误类别
+   */
+  static getKindForStatus(status: number): RequestErrorKind {
+    if (status === 408) return 'timeout';
+    if (status === 429) return 'rateLimited';
+    // 501 Not Implemented、505 HTTP Version Not Supported 重试也不会成功
+    if (status >= 500 && status !== 501 && status !== 505) return 'serverError';
+    return 'clientError';
+  }
+
+  /**
+   * 解析 Retry-After 响应头，支持秒数和 HTTP 日期两种格式
+   * @param header Retry-After 响应头
+   * @returns 等待时间 (毫秒)，无法解析时为空
+   */
+  static parseRetryAfter(header?: string | null): number | undefined {
+    if (!header) return undefined;
+
+    const value = header.trim();
+    if (/^\d+$/.test(value)) {
+      return parseInt(value, 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  /**
+   * 将任意错误转换为请求错误
+   * @param error 错误对象
+   * @returns 请求错误
+   */
+  static from(error: unknown): RequestError {
+    if (error instanceof RequestError) {
+      return error;
+    }
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    if (error instanceof Error && error.name === 'AbortError') {
+      return new RequestError(message, 'cancelled');
+    }
+    if (error instanceof Error && error.name === 'TimeoutError') {
+      return new RequestError(message, 'timeout');
+    }
+    // fetch 在网络错误、跨域被拒绝时抛出 TypeError
+    if (error instanceof TypeError) {
+      return new RequestError(message, 'network');
+    }
+    return new RequestError(message, 'other');
+  }
+}
+
+/**
+ * 单个错误类别的重试规则
+ */
+export interface IRetryRule {
+  /** 是否重试 */
+  retry: boolean;
+  /** 最大重试次数，未设置时使用策略的默认值 */
+  maxRetries?: number;
+  /** 首次重试延迟 (毫秒)，之后指数增长，未设置时使用策略的默认值 */
+  baseDelay?: number;
+}
+
+/**
+ * 重试策略配置
+ */
+export interface IRetryPolicyConfig {
+  /** 默认最大重试次数 */
+  maxRetries: number;
+  /** 默认首次重试延迟 (毫秒) */
+  baseDelay: number;
+  /** 最长等待时间 (毫秒)，Retry-After 超过该值时不再重试 */
+  maxDelay?: number;
+  /** 抖动比例 (0-1)，等待时间在 ±抖动比例/2 的范围内随机 */
+  jitter?: number;
+  /** 按错误类别覆盖默认规则 */
+  rules?: Partial<Record<RequestErrorKind, Partial<IRetryRule>>>;
+}
+
+/**
+ * 各错误类别的默认重试规则
+ */
+export const DEFAULT_RETRY_RULES: Record<RequestErrorKind, IRetryRule> = {
+  network: { retry: true },
+  timeout: { retry: true },
+  rateLimited: { retry: true },
+  serverError: { retry: true },
+  clientError: { retry: false },
+  cancelled: { retry: false },
+  other: { retry: false }
+};
+
+const DEFAULT_MAX_DELAY = 60000;
+const DEFAULT_JITTER = 0.5;
+
+/**
+ * 重试策略类
+ */
+export class RetryPolicy {
+  private config: IRetryPolicyConfig;
+
+  constructor(config: IRetryPolicyConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 获取某个错误类别适用的重试规则
+   * @param kind 错误类别
+   * @returns 重试规则
+   */
+  getRule(kind: RequestErrorKind): Required<IRetryRule> {
+    const rule = { ...DEFAULT_RETRY_RULES[kind], ...this.config.rules?.[kind] };
+    return {
+      retry: rule.retry,
+      maxRetries: rule.maxRetries ?? this.config.maxRetries,
+      baseDelay: rule.baseDelay ?? this.config.baseDelay
+    };
+  }
+
+  /**
+   * 计算下一次重试前的等待时间
+   * @param error 本次请求的错误
+   * @param retryCount 已重试次数
+   * @returns 等待时间 (毫秒)，不应重试时为 null
+   */
+  getRetryDelay(error: RequestError, retryCount: number): number | null {
+    const rule = this.getRule(error.kind);
+    if (!rule.retry || retryCount >= rule.maxRetries) {
+      return null;
+    }
+
+    const maxDelay = this.config.maxDelay ?? DEFAULT_MAX_DELAY;
+    const jitter = Math.min(1, Math.max(0, this.config.jitter ?? DEFAULT_JITTER));
+    const backoff = Math.min(maxDelay, rule.baseDelay * Math.pow(2, retryCount));
+    const jittered = backoff * (1 - jitter / 2 + Math.random() * jitter);
+
+    if (error.retryAfter !== undefined) {
+      // 服务器要求等待的时间超过上限时放弃，避免长时间占用转换任务
+      if (error.retryAfter > maxDelay) {
+        return null;
+      }
+      // Retry-After 是最短等待时间，只在其基础上向后抖动
+      return Math.round(error.retryAfter + Math.random() * jitter * rule.baseDelay);
+    }
+
+    return Math.round(jittered);
+  }
+}
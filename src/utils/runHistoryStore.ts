@@ -0,0 +1,185 @@
+/**
+ * 运行历史存储
+ * 每次转换运行的摘要保存在插件安装实例的 storage 中，同一插件实例的所有协作者都能看到
+ */
+
+import { IFieldMapping, IConversionRetryItem } from '../components/link-converter/types';
+import { ICreatedAttachment } from './attachmentRemover';
+import { PluginStorage, IPluginStorageLocation } from './pluginStorage';
+
+/**
+ * 插件实例的定位参数
+ */
+export type IRunHistoryLocation = IPluginStorageLocation;
+
+/**
+ * 发起运行的用户
+ */
+export interface IRunHistoryUser {
+  id: string;
+  name: string;
+}
+
+/**
+ * 单次运行记录
+ */
+export interface IRunHistoryEntry {
+  /** 运行ID */
+  id: string;
+  /** 开始时间 (ISO 字符串) */
+  startedAt: string;
+  /** 发起人，无法获取当前用户时为 null */
+  startedBy: IRunHistoryUser | null;
+  /** 表格ID */
+  tableId: string;
+  /** 视图ID，按记录范围运行时为 null */
+  viewId: string | null;
+  /** 字段映射 */
+  fieldMappings: IFieldMapping[];
+  /** 结果汇总 */
+  summary: {
+    totalUrls: number;
+    successfulConversions: number;
+    failedConversions: number;
+    skippedUrls: number;
+  };
+  /** 总耗时 (毫秒) */
+  duration: number;
+  /** 是否被取消 */
+  cancelled: boolean;
+  /** 是否为重试失败链接的运行 */
+  retry?: boolean;
+  /** 是否由监听模式自动触发，同一次监听的多次运行合并为一条记录 */
+  watch?: boolean;
+  /** 失败的链接，用于重试；较早的记录可能没有 */
+  failedItems?: IConversionRetryItem[];
+  /** 本次运行创建的附件，用于撤销；超出保存上限时没有 */
+  createdAttachments?: ICreatedAttachment[];
+  /** 创建的附件超出保存上限而未保存时的附件数，这样的运行无法撤销 */
+  omittedAttachments?: number;
+  /** 撤销信息，运行被撤销后才有 */
+  undone?: {
+    at: string;
+    by: IRunHistoryUser | null;
+  };
+}
+
+/**
+ * 运行历史存储类
+ */
+export class RunHistoryStore {
+  private static readonly STORAGE_KEY = 'runHistory';
+  // 插件 storage 随插件实例一起读写，只保留最近的记录
+  private static readonly MAX_ENTRIES = 50;
+  // 每条记录最多保存的失败链接数，超出部分无法从历史中重试
+  private static readonly MAX_FAILED_ITEMS = 500;
+  // 创建的附件超过此数量时不保存，这样的运行无法撤销，避免只撤销一部分
+  private static readonly MAX_CREATED_ATTACHMENTS = 5000;
+
+  /**
+   * 读取运行历史（按时间倒序）
+   * @param location 插件实例的定位参数
+   * @returns 运行记录
+   */
+  static async load(location: Partial<IRunHistoryLocation>): Promise<IRunHistoryEntry[]> {
+    const storage = await PluginStorage.read(location);
+    return storage ? this.getHistory(storage) : [];
+  }
+
+  /**
+   * 追加一条运行记录
+   * @param location 插件实例的定位参数
+   * @param entry 运行记录
+   * @param mergeIntoId 合并到这条记录中（同一次监听的多次运行），记录已不存在或已撤销时追加为新记录
+   * @returns 写入的记录ID
+   */
+  static async append(location: Partial<IRunHistoryLocation>, entry: IRunHistoryEntry, mergeIntoId?: string): Promise<string> {
+    let id = entry.id;
+
+    // storage 是整体覆盖写入，需要保留其他键
+    await PluginStorage.update(location, (storage) => {
+      const history = this.getHistory(storage);
+      const target = mergeIntoId ? history.find(item => item.id === mergeIntoId && !item.undone) : undefined;
+      id = target?.id ?? entry.id;
+      return {
+        ...storage,
+        [this.STORAGE_KEY]: target
+          ? history.map(item => item === target ? this.trimEntry(this.mergeEntries(target, entry)) : item)
+          : [this.trimEntry(entry), ...history].slice(0, this.MAX_ENTRIES)
+      };
+    });
+    return id;
+  }
+
+  /**
+   * 更新一条运行记录
+   * @param location 插件实例的定位参数
+   * @param id 运行ID
+   * @param update 要更新的内容
+   */
+  static async update(
+    location: Partial<IRunHistoryLocation>,
+    id: string,
+    update: Partial<Omit<IRunHistoryEntry, 'id'>>
+  ): Promise<void> {
+    await PluginStorage.update(location, storage => ({
+      ...storage,
+      [this.STORAGE_KEY]: this.getHistory(storage).map(entry => entry.id === id ? { ...entry, ...update } : entry)
+    }));
+  }
+
+  /**
+   * 按保存上限截断失败链接和创建的附件
+   * @param entry 运行记录
+   * @returns 截断后的运行记录
+   */
+  private static trimEntry(entry: IRunHistoryEntry): IRunHistoryEntry {
+    const { createdAttachments, ...rest } = entry;
+    return {
+      ...rest,
+      ...(entry.failedItems ? { failedItems: entry.failedItems.slice(0, this.MAX_FAILED_ITEMS) } : {}),
+      ...(createdAttachments && createdAttachments.length > this.MAX_CREATED_ATTACHMENTS
+        ? { omittedAttachments: createdAttachments.length }
+        : createdAttachments ? { createdAttachments } : {})
+    };
+  }
+
+  /**
+   * 将一次运行合并到已有的记录中，保留已有记录的ID、开始时间和字段映射
+   * @param target 已有的运行记录
+   * @param entry 新的运行记录
+   * @returns 合并后的运行记录
+   */
+  private static mergeEntries(target: IRunHistoryEntry, entry: IRunHistoryEntry): IRunHistoryEntry {
+    const merged: IRunHistoryEntry = {
+      ...target,
+      summary: {
+        totalUrls: target.summary.totalUrls + entry.summary.totalUrls,
+        successfulConversions: target.summary.successfulConversions + entry.summary.successfulConversions,
+        failedConversions: target.summary.failedConversions + entry.summary.failedConversions,
+        skippedUrls: target.summary.skippedUrls + entry.summary.skippedUrls
+      },
+      duration: target.duration + entry.duration,
+      cancelled: target.cancelled || entry.cancelled,
+      failedItems: [...(target.failedItems ?? []), ...(entry.failedItems ?? [])]
+    };
+
+    // 已有记录的附件超出保存上限时，合并后同样无法撤销
+    if (target.omittedAttachments !== undefined) {
+      merged.omittedAttachments = target.omittedAttachments + (entry.createdAttachments?.length ?? 0);
+    } else {
+      merged.createdAttachments = [...(target.createdAttachments ?? []), ...(entry.createdAttachments ?? [])];
+    }
+    return merged;
+  }
+
+  /**
+   * 从 storage 中取出运行历史
+   * @param storage 插件实例的 storage
+   * @returns 运行记录
+   */
+  private static getHistory(storage: Record<string, unknown>): IRunHistoryEntry[] {
+    const history = storage[this.STORAGE_KEY];
+    return Array.isArray(history) ? history as IRunHistoryEntry[] : [];
+  }
+}
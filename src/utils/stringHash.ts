@@ -0,0 +1,17 @@
+/**
+ * 字符串哈希
+ * 在存储中用较短的哈希值代替URL等较长的字符串
+ */
+
+/**
+ * 计算字符串哈希 (djb2)
+ * @param value 字符串
+ * @returns 36进制哈希值
+ */
+export function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
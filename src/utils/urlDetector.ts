@@ -45,6 +45,58 @@ export class UrlDetector {
     /(www\.[^\s<>"']+)/gi,
   ];
 
+  // 扩展名 -> MIME类型
+  private static readonly MIME_TYPES: Record<string, string> = {
+    // 图片
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'png': 'image/png',
+    'gif': 'image/gif',
+    'webp': 'image/webp',
+    'svg': 'image/svg+xml',
+    'bmp': 'image/bmp',
+    'ico': 'image/x-icon',
+
+    // 文档
+    'pdf': 'application/pdf',
+    'doc': 'application/msword',
+    'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'xls': 'application/vnd.ms-excel',
+    'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'ppt': 'application/vnd.ms-powerpoint',
+    'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'txt': 'text/plain',
+    'rtf': 'application/rtf',
+
+    // 音视频
+    'mp4': 'video/mp4',
+    'avi': 'video/x-msvideo',
+    'mp3': 'audio/mpeg',
+    'wav': 'audio/wav',
+    'mov': 'video/quicktime',
+    'mkv': 'video/x-matroska',
+    'flv': 'video/x-flv',
+    'webm': 'video/webm',
+
+    // 压缩包
+    'zip': 'application/zip',
+    'rar': 'application/x-rar-compressed',
+    '7z': 'application/x-7z-compressed',
+    'tar': 'application/x-tar',
+    'gz': 'application/gzip',
+    'bz2': 'application/x-bzip2'
+  };
+
+  // 服务器常用但不在上表中的 MIME 类型写法 -> 扩展名
+  private static readonly MIME_TYPE_ALIASES: Record<string, string> = {
+    'image/jpg': 'jpg',
+    'image/pjpeg': 'jpg',
+    'audio/mp3': 'mp3',
+    'audio/x-wav': 'wav',
+    'application/x-zip-compressed': 'zip',
+    'application/x-gzip': 'gz',
+    'application/vnd.rar': 'rar'
+  };
 
   /**
    * 从文本中提取所有URL
@@ -86,6 +138,45 @@ export class UrlDetector {
     return matches;
   }
 
+  /**
+   * 从文本中移除指定的URL
+   * 移除后若所在行只剩空白，则整行删除
+   * @param text 原始文本
+   * @param urls 要移除的URL（清理后的URL）
+   * @returns 移除后的文本
+   */
+  static removeUrls(text: string, urls: Set<string>): string {
+    if (!text || urls.size === 0) {
+      return text;
+    }
+
+    // 两个正则可能匹配到重叠的片段（如 https://www. 开头的URL），按位置排序后去掉重叠部分
+    const matches = this.extractUrls(text)
+      .filter(match => urls.has(match.cleanedUrl))
+      .sort((a, b) => a.startIndex - b.startIndex)
+      .filter((match, index, sorted) => index === 0 || match.startIndex >= sorted[index - 1]!.endIndex);
+
+    if (matches.length === 0) {
+      return text;
+    }
+
+    let result = '';
+    let cursor = 0;
+    for (const match of matches) {
+      result += text.substring(cursor, match.startIndex);
+      cursor = match.endIndex;
+    }
+    result += text.substring(cursor);
+
+    const touchedLines = new Set(matches.map(match => text.substring(0, match.startIndex).split('\n').length - 1));
+
+    return result
+      .split('\n')
+      .map((line, index) => touchedLines.has(index) ? line.replace(/[ \t]{2,}/g, ' ').trim() : line)
+      .filter((line, index) => !(touchedLines.has(index) && line === ''))
+      .join('\n');
+  }
+
   /**
    * 验证URL格式是否正确
    * @param url 要验证的URL
@@ -146,48 +237,123 @@ export class UrlDetector {
    * @returns MIME类型字符串
    */
   static inferMimeType(extension: string): string {
-    const mimeTypes: Record<string, string> = {
-      // 图片
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'gif': 'image/gif',
-      'webp': 'image/webp',
-      'svg': 'image/svg+xml',
-      'bmp': 'image/bmp',
-      'ico': 'image/x-icon',
-
-      // 文档
-      'pdf': 'application/pdf',
-      'doc': 'application/msword',
-      'docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'xls': 'application/vnd.ms-excel',
-      'xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-      'ppt': 'application/vnd.ms-powerpoint',
-      'pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-      'txt': 'text/plain',
-      'rtf': 'application/rtf',
-
-      // 音视频
-      'mp4': 'video/mp4',
-      'avi': 'video/x-msvideo',
-      'mp3': 'audio/mpeg',
-      'wav': 'audio/wav',
-      'mov': 'video/quicktime',
-      'mkv': 'video/x-matroska',
-      'flv': 'video/x-flv',
-      'webm': 'video/webm',
-
-      // 压缩包
-      'zip': 'application/zip',
-      'rar': 'application/x-rar-compressed',
-      '7z': 'application/x-7z-compressed',
-      'tar': 'application/x-tar',
-      'gz': 'application/gzip',
-      'bz2': 'application/x-bzip2'
+    return this.MIME_TYPES[extension.toLowerCase()] || 'application/octet-stream';
+  }
+
+  /**
+   * 根据MIME类型获取扩展名
+   * @param mimeType MIME类型，可以带 charset 等参数
+   * @returns 扩展名，未知类型返回 null
+   */
+  static getExtensionFromMimeType(mimeType?: string | null): string | null {
+    const type = mimeType?.split(';')[0]?.trim().toLowerCase();
+    if (!type || type === 'application/octet-stream') return null;
+
+    const alias = this.MIME_TYPE_ALIASES[type];
+    if (alias) return alias;
+
+    // 多个扩展名对应同一类型时取表中第一个（如 jpg 而不是 jpeg）
+    const entry = Object.entries(this.MIME_TYPES).find(([, value]) => value === type);
+    return entry ? entry[0] : null;
+  }
+
+  /**
+   * 从 Content-Disposition 响应头中解析文件名
+   * 优先使用 RFC 5987 的 filename*（如 filename*=UTF-8''%E6%8A%A5%E5%91%8A.pdf），其次是 filename
+   * @param header Content-Disposition 响应头
+   * @returns 文件名，没有文件名时返回 null
+   */
+  static parseContentDisposition(header?: string | null): string | null {
+    if (!header) return null;
+
+    const extended = /(?:^|;)\s*filename\*\s*=\s*([^';]*)'[^']*'([^;]+)/i.exec(header);
+    if (extended) {
+      const charset = extended[1]!.trim().toLowerCase() || 'utf-8';
+      const value = extended[2]!.trim().replace(/^"(.*)"$/, '$1');
+      try {
+        const decoded = charset === 'utf-8'
+          ? decodeURIComponent(value)
+          : value.replace(/%([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+        if (decoded.trim()) return decoded;
+      } catch {
+        // 编码不正确时退回使用 filename
+      }
+    }
+
+    const quoted = /(?:^|;)\s*filename\s*=\s*"((?:[^"\\]|\\.)*)"/i.exec(header);
+    const token = /(?:^|;)\s*filename\s*=\s*([^";\s][^;]*)/i.exec(header);
+    const value = quoted ? quoted[1]!.replace(/\\(.)/g, '$1') : token?.[1]?.trim();
+    if (!value) return null;
+
+    return this.decodeHeaderFileName(value);
+  }
+
+  /**
+   * 还原响应头中直接写入的非 ASCII 文件名
+   * 浏览器按 Latin-1 读取响应头，服务器直接写入的 UTF-8 文件名需要重新解码；部分服务器会对文件名做百分号编码
+   * @param value 响应头中的文件名
+   * @returns 文件名
+   */
+  private static decodeHeaderFileName(value: string): string {
+    if (/[\u0080-\u00ff]/.test(value) && !/[^\u0000-\u00ff]/.test(value)) {
+      try {
+        const bytes = Uint8Array.from(value, char => char.charCodeAt(0));
+        return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+      } catch {
+        // 本身就是 Latin-1 文件名
+      }
+    }
+
+    if (/%[0-9a-f]{2}/i.test(value)) {
+      try {
+        return decodeURIComponent(value);
+      } catch {
+        // 不是百分号编码
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * 根据下载响应确定文件名
+   * 依次使用 Content-Disposition 中的文件名、重定向后最终URL的文件名、原始URL的文件名，
+   * 文件名没有扩展名时根据响应的MIME类型补上
+   * @param url 原始URL
+   * @param response 响应信息
+   * @returns 文件名
+   */
+  static resolveFileName(
+    url: string,
+    response: { finalUrl?: string | null; contentDisposition?: string | null; contentType?: string | null } = {}
+  ): string {
+    const getPathFileName = (value?: string | null) => {
+      if (!value) return null;
+      try {
+        const segment = new URL(value).pathname.split('/').pop();
+        return segment ? this.sanitizeFileName(this.decodeUrlSegment(segment)) : null;
+      } catch {
+        return null;
+      }
     };
+    const hasExtension = (name: string) => name.lastIndexOf('.') > 0;
+
+    const dispositionName = this.parseContentDisposition(response.contentDisposition);
+    const candidates = [
+      dispositionName ? this.sanitizeFileName(dispositionName) : null,
+      getPathFileName(response.finalUrl),
+      getPathFileName(url)
+    ].filter((name): name is string => Boolean(name));
+
+    // 没有 Content-Disposition 时，优先使用带扩展名的URL文件名（如短链接重定向到真实文件）
+    const fileName = (dispositionName ? candidates[0] : candidates.find(hasExtension) ?? candidates[0]) ??
+      this.generateSafeFileName(url);
+    if (hasExtension(fileName)) {
+      return fileName;
+    }
 
-    return mimeTypes[extension.toLowerCase()] || 'application/octet-stream';
+    const extension = this.getExtensionFromMimeType(response.contentType);
+    return extension ? `${fileName}.${extension}` : fileName;
   }
 
   /**
@@ -200,38 +366,53 @@ export class UrlDetector {
     try {
       const urlObj = new URL(url);
       const hostname = urlObj.hostname.replace(/[^\w.-]/g, '_');
-      const pathname = urlObj.pathname.replace(/[^\w.-]/g, '_');
-      const timestamp = Date.now();
 
       // 从路径中提取文件名
-      const originalFileName = pathname.split('/').pop() || 'file';
-
-      // 清理文件名
-      let safeFileName = originalFileName.replace(/[^\w.-]/g, '_');
+      let safeFileName = this.sanitizeFileName(this.decodeUrlSegment(urlObj.pathname.split('/').pop() || ''));
 
       // 确保文件名不为空
-      if (!safeFileName || safeFileName === '_') {
+      if (!safeFileName) {
         safeFileName = `${hostname}_file`;
       }
 
       // 添加扩展名
-      if (extension && !safeFileName.endsWith(`.${extension}`)) {
+      if (extension && !safeFileName.toLowerCase().endsWith(`.${extension.toLowerCase()}`)) {
         safeFileName += `.${extension}`;
       }
 
-      // 添加时间戳以避免冲突
-      const lastDotIndex = safeFileName.lastIndexOf('.');
-      if (lastDotIndex > 0) {
-        const namePart = safeFileName.substring(0, lastDotIndex);
-        const extPart = safeFileName.substring(lastDotIndex);
-        return `${namePart}_${timestamp}${extPart}`;
-      } else {
-        return `${safeFileName}_${timestamp}`;
-      }
+      return safeFileName;
+    } catch {
+      // 如果URL解析失败，返回默认文件名
+      return `download${extension ? `.${extension}` : ''}`;
+    }
+  }
+
+  /**
+   * 清理文件名中不能用于文件名的字符，保留中文等非 ASCII 字符
+   * @param fileName 文件名
+   * @returns 清理后的文件名，清理后为空时返回空字符串
+   */
+  static sanitizeFileName(fileName: string): string {
+    const cleaned = Array.from(fileName)
+      .filter(char => char.charCodeAt(0) >= 32 && char.charCodeAt(0) !== 127)
+      .join('')
+      .replace(/[\\/:*?"<>|]/g, '_')
+      .trim()
+      .replace(/^\.+/, '');
+
+    return cleaned.replace(/_/g, '') ? cleaned.slice(0, 200) : '';
+  }
+
+  /**
+   * 解码URL路径片段，编码不正确时原样返回
+   * @param segment 路径片段
+   * @returns 解码后的片段
+   */
+  private static decodeUrlSegment(segment: string): string {
+    try {
+      return decodeURIComponent(segment);
     } catch {
-      // 如果URL解析失败，返回基于时间戳的默认文件名
-      const fallbackTimestamp = Date.now();
-      return `download_${fallbackTimestamp}${extension ? `.${extension}` : ''}`;
+      return segment;
     }
   }
 
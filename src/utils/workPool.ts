@@ -0,0 +1,57 @@
+/**
+ * 有界并发工作池
+ * 按需从（异步）迭代器中拉取任务，同时最多执行 concurrency 个；
+ * 只有出现空闲槽位时才会拉取下一个任务，从而对上游（如分页扫描）形成背压
+ */
+
+/**
+ * 以有界并发处理任务
+ * @param source 任务来源，可以是异步生成器
+ * @param concurrency 最大并发数
+ * @param worker 任务处理函数
+ * @param signal 取消信号，取消后不再拉取新任务，已开始的任务会执行完毕
+ * @throws 第一个出错任务的错误，在其他执行槽中已开始的任务全部结束后抛出
+ */
+export async function runWorkPool<T>(
+  source: AsyncIterable<T> | Iterable<T>,
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const iterator = Symbol.asyncIterator in source
+    ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (source as Iterable<T>)[Symbol.iterator]();
+
+  let exhausted = false;
+
+  // 异步生成器会对并发的 next() 调用排队，多个执行槽可以安全地共享同一个迭代器
+  const runSlot = async () => {
+    while (!exhausted && !signal?.aborted) {
+      const next = await iterator.next();
+      if (next.done) {
+        exhausted = true;
+        return;
+      }
+
+      try {
+        await worker(next.value);
+      } catch (error) {
+        // 任务本身出错时停止拉取，避免继续处理
+        exhausted = true;
+        throw error;
+      }
+    }
+  };
+
+  try {
+    // 等待所有执行槽结束，一个任务出错时其他已开始的任务不会在后台继续运行
+    const results = await Promise.allSettled(Array.from({ length: Math.max(1, concurrency) }, runSlot));
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) {
+      throw failure.reason;
+    }
+  } finally {
+    // 提前结束（取消或出错）时关闭迭代器，让异步生成器执行自身的清理逻辑；已耗尽的迭代器不受影响
+    await iterator.return?.();
+  }
+}